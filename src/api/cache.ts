@@ -1,58 +1,242 @@
 /**
- * Simple in-memory cache for API responses
+ * Cache for API responses
  * Helps reduce API calls for frequently accessed data
  */
 
-interface CacheEntry<T> {
-    value: T;
-    timestamp: number;
+import {
+    createCacheBackend,
+    type CacheBackend,
+    type CacheLimits,
+} from './cacheBackends.js';
+import { getCacheScope, isCacheScopeOf } from '../config/credentials.js';
+import { logger } from '../observability/logger.js';
+
+const log = logger.child({ component: 'cache' });
+
+export interface SimpleCacheOptions extends CacheLimits {
+    // Used to name the on-disk store
+    name?: string;
+    // How long past its TTL an entry may still be served by getOrLoad
+    // while a fresh copy is fetched in the background
+    staleMinutes?: number;
+    backend?: CacheBackend<any>;
+}
+
+export interface CacheStats {
+    name: string;
+    entries: number;
+    bytes: number;
+    hits: number;
+    // Stale values served while a refresh ran in the background
+    staleHits: number;
+    misses: number;
+    evictions: number;
+}
+
+// Defaults for every cache, overridable per deployment
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+function getDefaultLimits(): CacheLimits {
+    return {
+        maxEntries:
+            parseInt(process.env.CBIOPORTAL_CACHE_MAX_ENTRIES || '') ||
+            DEFAULT_MAX_ENTRIES,
+        maxBytes:
+            parseInt(process.env.CBIOPORTAL_CACHE_MAX_BYTES || '') ||
+            DEFAULT_MAX_BYTES,
+    };
 }
 
 export class SimpleCache<T> {
-    private cache: Map<string, CacheEntry<T>> = new Map();
+    readonly name: string;
+    private cache: CacheBackend<T>;
     private ttl: number; // Time to live in milliseconds
+    private staleTtl: number; // Extra time stale entries are kept, in milliseconds
+    // Loads in progress, shared by concurrent callers
+    private inflight: Map<string, Promise<T>> = new Map();
+    private hits = 0;
+    private staleHits = 0;
+    private misses = 0;
 
-    constructor(ttlMinutes: number = 60) {
+    constructor(ttlMinutes: number = 60, options: SimpleCacheOptions = {}) {
+        this.name = options.name || 'default';
         this.ttl = ttlMinutes * 60 * 1000;
+        this.staleTtl = (options.staleMinutes || 0) * 60 * 1000;
+        const defaults = getDefaultLimits();
+        this.cache =
+            options.backend ||
+            createCacheBackend<T>(this.name, this.ttl + this.staleTtl, {
+                maxEntries: options.maxEntries || defaults.maxEntries,
+                maxBytes: options.maxBytes || defaults.maxBytes,
+            });
     }
 
     set(key: string, value: T): void {
-        this.cache.set(key, {
+        this.cache.set(this.namespaced(key), {
             value,
             timestamp: Date.now(),
         });
     }
 
     get(key: string): T | null {
+        key = this.namespaced(key);
         const entry = this.cache.get(key);
 
         if (!entry) {
+            this.misses++;
             return null;
         }
 
-        // Check if expired
-        if (Date.now() - entry.timestamp > this.ttl) {
-            this.cache.delete(key);
+        // Check if expired; stale entries are kept for getOrLoad
+        const age = Date.now() - entry.timestamp;
+        if (age > this.ttl) {
+            if (age > this.ttl + this.staleTtl) {
+                this.cache.delete(key);
+            }
+            this.misses++;
             return null;
         }
 
+        this.hits++;
         return entry.value;
     }
 
+    /**
+     * Get a value, loading it on a miss
+     * Stale values are returned immediately and refreshed in the background;
+     * concurrent misses for the same key share one load
+     */
+    async getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+        key = this.namespaced(key);
+        const entry = this.cache.get(key);
+        const age = entry ? Date.now() - entry.timestamp : Infinity;
+
+        if (age <= this.ttl) {
+            this.hits++;
+            return entry.value;
+        }
+
+        if (age <= this.ttl + this.staleTtl) {
+            this.staleHits++;
+            this.loadOnce(key, load).catch((error) => {
+                // Keep serving the stale value until a refresh succeeds
+                log.warn('Error refreshing cache entry', {
+                    cache: this.name,
+                    key,
+                    error,
+                });
+            });
+            return entry.value;
+        }
+
+        this.misses++;
+        return await this.loadOnce(key, load);
+    }
+
     has(key: string): boolean {
         return this.get(key) !== null;
     }
 
+    /**
+     * Remove a single key; returns whether it was cached
+     */
+    delete(key: string): boolean {
+        return this.cache.delete(this.namespaced(key));
+    }
+
+    /**
+     * Remove a key of the current portal for every identity: the shared
+     * entry and each user's private copy; returns how many were cached
+     */
+    purge(key: string): number {
+        const suffix = `:${key}`;
+        let purged = 0;
+        for (const stored of this.cache.keys()) {
+            if (
+                stored.endsWith(suffix) &&
+                isCacheScopeOf(stored.slice(0, -suffix.length)) &&
+                this.cache.delete(stored)
+            ) {
+                purged++;
+            }
+        }
+        return purged;
+    }
+
     clear(): void {
         this.cache.clear();
     }
 
     size(): number {
-        return this.cache.size;
+        return this.cache.size();
+    }
+
+    getStats(): CacheStats {
+        return {
+            name: this.name,
+            ...this.cache.stats(),
+            hits: this.hits,
+            staleHits: this.staleHits,
+            misses: this.misses,
+        };
+    }
+
+    /**
+     * Keys are stored per portal and identity, so neither instances nor
+     * users with their own tokens ever share entries
+     */
+    private namespaced(key: string): string {
+        return `${getCacheScope()}:${key}`;
+    }
+
+    /**
+     * Run a load unless one for the same key is already in progress
+     */
+    private loadOnce(key: string, load: () => Promise<T>): Promise<T> {
+        const pending = this.inflight.get(key);
+        if (pending) {
+            return pending;
+        }
+
+        const promise = load()
+            .then((value) => {
+                this.cache.set(key, { value, timestamp: Date.now() });
+                return value;
+            })
+            .finally(() => {
+                this.inflight.delete(key);
+            });
+        this.inflight.set(key, promise);
+        return promise;
     }
 }
 
 // Cache instances for different data types
-export const geneCache = new SimpleCache<boolean>(60); // Cache gene validation for 60 minutes
-export const studyCache = new SimpleCache<any>(30); // Cache study data for 30 minutes
-export const profileCache = new SimpleCache<any>(30); // Cache molecular profiles for 30 minutes
+// Stale entries are served for up to a day while being refreshed
+const STALE_MINUTES = 24 * 60;
+
+export const geneCache = new SimpleCache<any>(60, {
+    name: 'genes',
+    staleMinutes: STALE_MINUTES,
+}); // Cache gene lookups and aliases for 60 minutes
+export const studyCache = new SimpleCache<any>(30, {
+    name: 'studies',
+    staleMinutes: STALE_MINUTES,
+}); // Cache study data for 30 minutes
+export const profileCache = new SimpleCache<any>(30, {
+    name: 'profiles',
+    staleMinutes: STALE_MINUTES,
+}); // Cache molecular profiles for 30 minutes
+export const clinicalCache = new SimpleCache<any>(30, {
+    name: 'clinical',
+    staleMinutes: STALE_MINUTES,
+}); // Cache clinical attributes and values for 30 minutes
+
+// All caches by name, for inspection and purging
+export const caches: Record<string, SimpleCache<any>> = {
+    [geneCache.name]: geneCache,
+    [studyCache.name]: studyCache,
+    [profileCache.name]: profileCache,
+    [clinicalCache.name]: clinicalCache,
+};
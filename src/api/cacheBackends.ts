@@ -0,0 +1,330 @@
+/**
+ * Storage backends for SimpleCache
+ * Memory keeps entries for the life of the process; file persists them
+ * across restarts as one JSON file per cache
+ * Both are bounded and evict the least recently used entries first
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { logger } from '../observability/logger.js';
+
+const log = logger.child({ component: 'cache' });
+
+export interface CacheEntry<T> {
+    value: T;
+    timestamp: number;
+}
+
+export interface CacheLimits {
+    maxEntries?: number;
+    // Approximate, measured as the length of each value serialized as JSON
+    maxBytes?: number;
+}
+
+export interface CacheBackendStats {
+    entries: number;
+    bytes: number;
+    evictions: number;
+}
+
+export interface CacheBackend<T> {
+    get(key: string): CacheEntry<T> | undefined;
+    set(key: string, entry: CacheEntry<T>): void;
+    delete(key: string): boolean;
+    keys(): string[];
+    clear(): void;
+    size(): number;
+    stats(): CacheBackendStats;
+}
+
+/**
+ * Keeps entries in a Map, in least to most recently used order
+ */
+export class MemoryCacheBackend<T> implements CacheBackend<T> {
+    protected entries: Map<string, CacheEntry<T>> = new Map();
+    private sizes: Map<string, number> = new Map();
+    private bytes = 0;
+    private evictions = 0;
+    private maxEntries: number;
+    private maxBytes: number;
+
+    constructor(limits: CacheLimits = {}) {
+        this.maxEntries = limits.maxEntries || Infinity;
+        this.maxBytes = limits.maxBytes || Infinity;
+    }
+
+    get(key: string): CacheEntry<T> | undefined {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move to the most recently used end
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: CacheEntry<T>): void {
+        this.remove(key);
+        const size = estimateSize(entry.value);
+        this.entries.set(key, entry);
+        this.sizes.set(key, size);
+        this.bytes += size;
+        this.evict();
+    }
+
+    delete(key: string): boolean {
+        return this.remove(key);
+    }
+
+    keys(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.sizes.clear();
+        this.bytes = 0;
+    }
+
+    size(): number {
+        return this.entries.size;
+    }
+
+    stats(): CacheBackendStats {
+        return {
+            entries: this.entries.size,
+            bytes: this.bytes,
+            evictions: this.evictions,
+        };
+    }
+
+    private remove(key: string): boolean {
+        if (!this.entries.delete(key)) {
+            return false;
+        }
+        this.bytes -= this.sizes.get(key) || 0;
+        this.sizes.delete(key);
+        return true;
+    }
+
+    /**
+     * Drop least recently used entries until within limits
+     * The newest entry is always kept, even if it alone exceeds maxBytes
+     */
+    private evict(): void {
+        while (
+            this.entries.size > 1 &&
+            (this.entries.size > this.maxEntries || this.bytes > this.maxBytes)
+        ) {
+            const oldest = this.entries.keys().next().value;
+            this.remove(oldest);
+            this.evictions++;
+        }
+    }
+}
+
+function estimateSize(value: unknown): number {
+    try {
+        return JSON.stringify(value)?.length || 0;
+    } catch (error) {
+        return 0;
+    }
+}
+
+const FLUSH_DELAY_MS = 1000;
+// Characters serialized between writes while flushing
+const WRITE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Keeps entries in memory and mirrors them to a JSON file
+ * Writes are batched and flushed shortly after the last change, and on exit
+ * Each write goes to a temporary file that is then renamed over the cache
+ * file, so a crash never leaves a truncated cache
+ */
+export class FileCacheBackend<T> extends MemoryCacheBackend<T> {
+    private filePath: string;
+    private tmpPath: string;
+    private maxAgeMs: number;
+    private flushTimer: NodeJS.Timeout | null = null;
+    // Changes not yet handed to a write
+    private dirty = false;
+    // Whether a write is under way; one cut short by exit must be redone
+    private writing = false;
+    // Pending writes, one after the other so they never share the temporary file
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string, maxAgeMs: number, limits: CacheLimits = {}) {
+        super(limits);
+        this.filePath = filePath;
+        this.tmpPath = `${filePath}.tmp`;
+        this.maxAgeMs = maxAgeMs;
+        this.load();
+        // Nothing asynchronous runs once the process exits
+        process.on('exit', () => {
+            if (this.dirty || this.writing) this.flushSync();
+        });
+    }
+
+    set(key: string, entry: CacheEntry<T>): void {
+        super.set(key, entry);
+        this.scheduleFlush();
+    }
+
+    delete(key: string): boolean {
+        const deleted = super.delete(key);
+        this.scheduleFlush();
+        return deleted;
+    }
+
+    clear(): void {
+        super.clear();
+        this.scheduleFlush();
+    }
+
+    /**
+     * Write all entries to disk now, without blocking the event loop
+     * Resolves once the file is written; failures are logged, not thrown
+     */
+    flush(): Promise<void> {
+        this.cancelScheduledFlush();
+        this.writes = this.writes.then(() => this.write());
+        return this.writes;
+    }
+
+    /**
+     * Write all entries to disk before returning, for the exit handler
+     */
+    flushSync(): void {
+        this.cancelScheduledFlush();
+        this.dirty = false;
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(
+                this.tmpPath,
+                JSON.stringify(Object.fromEntries(this.entries))
+            );
+            fs.renameSync(this.tmpPath, this.filePath);
+        } catch (error) {
+            this.logWriteError(error);
+        }
+    }
+
+    /**
+     * Serialize and write the entries in chunks, so a large cache doesn't
+     * hold up requests while it is written
+     */
+    private async write(): Promise<void> {
+        // Snapshot, since reads reorder the entries while we write
+        const entries = Array.from(this.entries);
+        this.dirty = false;
+        this.writing = true;
+        try {
+            await fs.promises.mkdir(path.dirname(this.filePath), {
+                recursive: true,
+            });
+            const file = await fs.promises.open(this.tmpPath, 'w');
+            try {
+                let chunk = '';
+                let separator = '{';
+                for (const [key, entry] of entries) {
+                    chunk += `${separator}${JSON.stringify(key)}:${JSON.stringify(entry)}`;
+                    separator = ',';
+                    if (chunk.length >= WRITE_CHUNK_SIZE) {
+                        await file.write(chunk);
+                        chunk = '';
+                    }
+                }
+                await file.write(chunk + (separator === '{' ? '{}' : '}'));
+            } finally {
+                await file.close();
+            }
+            await fs.promises.rename(this.tmpPath, this.filePath);
+        } catch (error) {
+            this.logWriteError(error);
+        } finally {
+            this.writing = false;
+        }
+    }
+
+    private logWriteError(error: unknown): void {
+        log.error('Error writing cache file', {
+            file: this.filePath,
+            error,
+        });
+    }
+
+    private cancelScheduledFlush(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+    }
+
+    private scheduleFlush(): void {
+        this.dirty = true;
+        if (this.flushTimer) {
+            return;
+        }
+        this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+        // Don't keep the process alive just to write the cache
+        this.flushTimer.unref();
+    }
+
+    /**
+     * Load entries that are still usable from disk
+     */
+    private load(): void {
+        let raw: string;
+        try {
+            raw = fs.readFileSync(this.filePath, 'utf8');
+        } catch (error) {
+            return; // No cache file yet
+        }
+
+        try {
+            const stored: Record<string, CacheEntry<T>> = JSON.parse(raw);
+            const now = Date.now();
+            // Entries were written in LRU order, so limits keep the most recent
+            for (const [key, entry] of Object.entries(stored)) {
+                if (now - entry.timestamp <= this.maxAgeMs) {
+                    super.set(key, entry);
+                }
+            }
+        } catch (error) {
+            log.warn('Ignoring unreadable cache file', {
+                file: this.filePath,
+                error,
+            });
+        }
+    }
+}
+
+/**
+ * Create the backend selected by CBIOPORTAL_CACHE_BACKEND ("memory" or "file")
+ * File caches live in CBIOPORTAL_CACHE_DIR (default: .cache)
+ */
+export function createCacheBackend<T>(
+    name: string,
+    maxAgeMs: number,
+    limits: CacheLimits = {}
+): CacheBackend<T> {
+    const backend = process.env.CBIOPORTAL_CACHE_BACKEND || 'memory';
+
+    switch (backend) {
+        case 'memory':
+            return new MemoryCacheBackend<T>(limits);
+        case 'file': {
+            const dir = process.env.CBIOPORTAL_CACHE_DIR || '.cache';
+            return new FileCacheBackend<T>(
+                path.join(dir, `${name}.json`),
+                maxAgeMs,
+                limits
+            );
+        }
+        default:
+            throw new Error(
+                `Unknown CBIOPORTAL_CACHE_BACKEND "${backend}" (use memory or file)`
+            );
+    }
+}
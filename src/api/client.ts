@@ -3,17 +3,168 @@
  * Wrapper around cbioportal-ts-api-client for MCP server usage
  */
 
-import { CBioPortalAPI } from 'cbioportal-ts-api-client';
+import {
+    CBioPortalAPI,
+    type DiscreteCopyNumberFilter,
+    type MutationFilter,
+} from 'cbioportal-ts-api-client';
+import type { ComparisonSession } from '../urlBuilders/comparison.js';
+import { getCurrentPortal, type PortalConfig } from '../config/portals.js';
+import { getToken } from '../config/credentials.js';
+import {
+    upstreamDuration,
+    upstreamRequests,
+    upstreamRetries,
+} from '../observability/metrics.js';
+import { logger } from '../observability/logger.js';
+import {
+    CbioportalNotFoundError,
+    CbioportalRequestError,
+    CbioportalUnavailableError,
+    RequestAbortedError,
+} from './errors.js';
+import { callWithResilience } from './resilience.js';
+import { FixtureApi } from './fixtures.js';
+
+const log = logger.child({ component: 'api' });
+
+/**
+ * CBioPortalAPI that sends the current data access token with every request
+ * The generated client builds all requests through request(), so the
+ * header is added there
+ */
+class AuthenticatedCBioPortalAPI extends CBioPortalAPI {
+    private portal: PortalConfig;
+
+    constructor(portal: PortalConfig) {
+        super(portal.apiUrl);
+        this.portal = portal;
+    }
+
+    request(
+        method: string,
+        url: string,
+        body: any,
+        headers: any,
+        ...rest: any[]
+    ) {
+        const token = getToken(this.portal);
+        return super.request(
+            method,
+            url,
+            body,
+            token ? { ...headers, Authorization: `Bearer ${token}` } : headers,
+            ...rest
+        );
+    }
+
+    /**
+     * Store a group comparison session and return its ID
+     * The session service is not part of the generated API client
+     */
+    async createComparisonSession(session: ComparisonSession): Promise<string> {
+        const token = getToken(this.portal);
+        const response = await fetch(
+            `${this.portal.apiUrl}/api/session/comparison_session`,
+            {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                },
+                body: JSON.stringify(session),
+            }
+        );
+        if (!response.ok) {
+            // Carries the status, so the error is classified like the
+            // generated client's
+            throw Object.assign(
+                new Error(
+                    `Failed to create comparison session: ${response.status} ${response.statusText}`
+                ),
+                { status: response.status }
+            );
+        }
+        const { id } = (await response.json()) as { id: string };
+        return id;
+    }
+}
+
+/**
+ * The API calls the client makes: the generated methods it uses, plus
+ * storing comparison sessions
+ * Implemented by the live API and by FixtureApi (fixtures.ts)
+ */
+export type PortalApi = Pick<
+    CBioPortalAPI,
+    | 'getAllStudiesUsingGET'
+    | 'getStudyUsingGET'
+    | 'getGeneUsingGET'
+    | 'getAllGenesUsingGET'
+    | 'getAllMolecularProfilesInStudyUsingGET'
+    | 'getAllSampleListsInStudyUsingGET'
+    | 'getAllSampleIdsInSampleListUsingGET'
+    | 'getAllSamplesInStudyUsingGET'
+    | 'getAllClinicalAttributesInStudyUsingGET'
+    | 'getAllClinicalDataInStudyUsingGET'
+    | 'fetchMutationsInMolecularProfileUsingPOST'
+    | 'fetchDiscreteCopyNumbersInMolecularProfileUsingPOST'
+    | 'getAllPatientsInStudyUsingGET'
+    | 'getPatientInStudyUsingGET'
+    | 'getAllPatientsUsingGET'
+    | 'getAllSamplesUsingGET'
+    | 'getAllSamplesOfPatientInStudyUsingGET'
+> & {
+    createComparisonSession(session: ComparisonSession): Promise<string>;
+};
+
+export type ApiFactory = (portal: PortalConfig) => PortalApi;
+
+/**
+ * The portal's live API, or local fixtures when CBIOPORTAL_FIXTURES_DIR
+ * is set (see fixtures.ts)
+ */
+export function createDefaultApi(portal: PortalConfig): PortalApi {
+    const fixturesDir = process.env.CBIOPORTAL_FIXTURES_DIR;
+    return fixturesDir
+        ? new FixtureApi(fixturesDir)
+        : new AuthenticatedCBioPortalAPI(portal);
+}
 
 export class CbioportalApiClient {
-    private api: CBioPortalAPI;
+    // When unset, calls go to the portal selected for the current request
+    private fixedPortal?: PortalConfig;
+    private createApi: ApiFactory;
+    private apis: Map<string, PortalApi> = new Map();
+
+    constructor(
+        portal?: PortalConfig,
+        createApi: ApiFactory = createDefaultApi
+    ) {
+        this.fixedPortal = portal;
+        this.createApi = createApi;
+    }
+
+    /**
+     * Replace how each portal's API is created, e.g. with fixtures in tests
+     */
+    setApiFactory(createApi: ApiFactory) {
+        this.createApi = createApi;
+        this.apis.clear();
+    }
 
-    constructor(baseUrl?: string) {
-        const apiBaseUrl =
-            baseUrl ||
-            process.env.CBIOPORTAL_API_URL ||
-            'https://www.cbioportal.org';
-        this.api = new CBioPortalAPI(apiBaseUrl);
+    private get portal(): PortalConfig {
+        return this.fixedPortal || getCurrentPortal();
+    }
+
+    private get api(): PortalApi {
+        const portal = this.portal;
+        let api = this.apis.get(portal.name);
+        if (!api) {
+            api = this.createApi(portal);
+            this.apis.set(portal.name, api);
+        }
+        return api;
     }
 
     /**
@@ -37,6 +188,20 @@ export class CbioportalApiClient {
         return await this.api.getGeneUsingGET({ geneId });
     }
 
+    /**
+     * Get genes that have the given alias (e.g. "HER2" for ERBB2)
+     */
+    async getGenesByAlias(alias: string) {
+        return await this.api.getAllGenesUsingGET({ alias });
+    }
+
+    /**
+     * Get all genes known to cBioPortal
+     */
+    async getAllGenes() {
+        return await this.api.getAllGenesUsingGET({});
+    }
+
     /**
      * Get all molecular profiles for a study
      */
@@ -53,6 +218,83 @@ export class CbioportalApiClient {
         return await this.api.getAllSampleListsInStudyUsingGET({ studyId });
     }
 
+    /**
+     * Get all samples in a study
+     */
+    async getSamplesInStudy(studyId: string) {
+        return await this.api.getAllSamplesInStudyUsingGET({ studyId });
+    }
+
+    /**
+     * Get all clinical attributes defined for a study
+     */
+    async getClinicalAttributes(studyId: string) {
+        return await this.api.getAllClinicalAttributesInStudyUsingGET({
+            studyId,
+        });
+    }
+
+    /**
+     * Get the sample IDs in a case list
+     */
+    async getSampleIdsInCaseList(sampleListId: string) {
+        return await this.api.getAllSampleIdsInSampleListUsingGET({
+            sampleListId,
+        });
+    }
+
+    /**
+     * Get mutations in a molecular profile for the given genes and samples
+     */
+    async getMutations(
+        molecularProfileId: string,
+        entrezGeneIds: number[],
+        sampleIds: string[]
+    ) {
+        return await this.api.fetchMutationsInMolecularProfileUsingPOST({
+            molecularProfileId,
+            mutationFilter: { entrezGeneIds, sampleIds } as MutationFilter,
+            projection: 'SUMMARY',
+        });
+    }
+
+    /**
+     * Get discrete copy number calls of one type for the given genes and samples
+     */
+    async getDiscreteCopyNumbers(
+        molecularProfileId: string,
+        entrezGeneIds: number[],
+        sampleIds: string[],
+        discreteCopyNumberEventType: 'AMP' | 'HOMDEL'
+    ) {
+        return await this.api.fetchDiscreteCopyNumbersInMolecularProfileUsingPOST(
+            {
+                molecularProfileId,
+                discreteCopyNumberFilter: {
+                    entrezGeneIds,
+                    sampleIds,
+                } as DiscreteCopyNumberFilter,
+                discreteCopyNumberEventType,
+                projection: 'SUMMARY',
+            }
+        );
+    }
+
+    /**
+     * Get all values of one clinical attribute in a study
+     */
+    async getClinicalDataForAttribute(
+        studyId: string,
+        attributeId: string,
+        clinicalDataType: 'SAMPLE' | 'PATIENT'
+    ) {
+        return await this.api.getAllClinicalDataInStudyUsingGET({
+            studyId,
+            attributeId,
+            clinicalDataType,
+        });
+    }
+
     /**
      * Get all patients in a study
      */
@@ -67,6 +309,20 @@ export class CbioportalApiClient {
         return await this.api.getPatientInStudyUsingGET({ studyId, patientId });
     }
 
+    /**
+     * Search patients across all studies by (partial) patient ID
+     */
+    async searchPatients(keyword: string) {
+        return await this.api.getAllPatientsUsingGET({ keyword });
+    }
+
+    /**
+     * Search samples across all studies by (partial) sample ID
+     */
+    async searchSamples(keyword: string) {
+        return await this.api.getAllSamplesUsingGET({ keyword });
+    }
+
     /**
      * Get all samples for a patient
      */
@@ -76,7 +332,111 @@ export class CbioportalApiClient {
             patientId,
         });
     }
+
+    /**
+     * Store a group comparison session and return its ID
+     */
+    async createComparisonSession(session: ComparisonSession): Promise<string> {
+        return await this.api.createComparisonSession(session);
+    }
+}
+
+// Client methods that don't call the portal
+const NOT_INSTRUMENTED = new Set(['constructor', 'setApiFactory']);
+
+// Calls that aren't safe to repeat: a retry could store a second session
+const NOT_RETRIED = new Set(['createComparisonSession']);
+
+/**
+ * Outcome label for an API call's metrics
+ */
+function outcomeOf(error: unknown): string {
+    if (error instanceof CbioportalNotFoundError) {
+        return 'not_found';
+    }
+    if (error instanceof CbioportalRequestError) {
+        return 'client_error';
+    }
+    if (error instanceof CbioportalUnavailableError) {
+        return 'unavailable';
+    }
+    if (error instanceof RequestAbortedError) {
+        return 'aborted';
+    }
+    return 'error';
+}
+
+/**
+ * Run every API call with a timeout, retries and the portal's circuit
+ * breaker (see resilience.ts), and record its latency and outcome under
+ * its method name
+ * Wraps each public method, so new methods are covered automatically
+ */
+function instrumentApiClient() {
+    const prototype = CbioportalApiClient.prototype as unknown as Record<
+        string,
+        unknown
+    >;
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+        // Read through the descriptor so getters aren't invoked
+        const method: unknown = Object.getOwnPropertyDescriptor(
+            prototype,
+            name
+        ).value;
+        if (NOT_INSTRUMENTED.has(name) || typeof method !== 'function') {
+            continue;
+        }
+
+        prototype[name] = async function (
+            this: { portal: PortalConfig },
+            ...args: unknown[]
+        ) {
+            const portal = this.portal.name;
+            const labels = { method: name, portal };
+            const stopTimer = upstreamDuration.startTimer(labels);
+            try {
+                const result = await callWithResilience(
+                    () => method.apply(this, args),
+                    {
+                        portal,
+                        method: name,
+                        retry: !NOT_RETRIED.has(name),
+                        onRetry: (attempt, error) => {
+                            upstreamRetries.inc(labels);
+                            log.warn('Retrying cBioPortal API call', {
+                                method: name,
+                                portal,
+                                attempt,
+                                error: error.message,
+                            });
+                        },
+                    }
+                );
+                upstreamRequests.inc({ ...labels, outcome: 'success' });
+                return result;
+            } catch (error) {
+                upstreamRequests.inc({ ...labels, outcome: outcomeOf(error) });
+                // Missing studies and genes are expected while resolving
+                // input, and aborted calls were never sent
+                if (
+                    !(error instanceof CbioportalNotFoundError) &&
+                    !(error instanceof RequestAbortedError)
+                ) {
+                    log.warn('cBioPortal API call failed', {
+                        method: name,
+                        portal,
+                        error,
+                    });
+                }
+                throw error;
+            } finally {
+                stopTimer();
+            }
+        };
+    }
 }
 
-// Singleton instance
+instrumentApiClient();
+
+// Singleton instance, following the portal of the current request
 export const apiClient = new CbioportalApiClient();
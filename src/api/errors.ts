@@ -0,0 +1,164 @@
+/**
+ * Errors from cBioPortal API calls
+ * Classified so callers can tell a study or gene that doesn't exist from a
+ * portal that can't be reached, and only cache the former
+ */
+
+export class CbioportalApiError extends Error {
+    readonly portal: string;
+    readonly method: string;
+    readonly status?: number;
+
+    constructor(
+        message: string,
+        portal: string,
+        method: string,
+        status?: number
+    ) {
+        super(message);
+        this.name = 'CbioportalApiError';
+        this.portal = portal;
+        this.method = method;
+        this.status = status;
+    }
+}
+
+/**
+ * The requested study, gene, profile, ... does not exist (404)
+ */
+export class CbioportalNotFoundError extends CbioportalApiError {
+    constructor(message: string, portal: string, method: string) {
+        super(message, portal, method, 404);
+        this.name = 'CbioportalNotFoundError';
+    }
+}
+
+/**
+ * The portal rejected the request (400, 401, 403, ...); retrying won't help
+ */
+export class CbioportalRequestError extends CbioportalApiError {
+    constructor(
+        message: string,
+        portal: string,
+        method: string,
+        status: number
+    ) {
+        super(message, portal, method, status);
+        this.name = 'CbioportalRequestError';
+    }
+}
+
+/**
+ * The portal could not be reached: network failure, timeout, 5xx or 429
+ * response, or an open circuit breaker; the request may succeed later
+ */
+export class CbioportalUnavailableError extends CbioportalApiError {
+    constructor(
+        reason: string,
+        portal: string,
+        method: string,
+        status?: number
+    ) {
+        super(
+            `cBioPortal (${portal}) is unreachable: ${reason}. Try again later.`,
+            portal,
+            method,
+            status
+        );
+        this.name = 'CbioportalUnavailableError';
+    }
+}
+
+/**
+ * The MCP request the call belongs to was given up (e.g. it timed out),
+ * so the call was not sent
+ */
+export class RequestAbortedError extends Error {
+    constructor(message = 'Request was aborted') {
+        super(message);
+        this.name = 'RequestAbortedError';
+    }
+}
+
+// Node and undici error codes for connections that failed or were cut off
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ECONNABORTED',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EHOSTUNREACH',
+    'ENETUNREACH',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'UND_ERR_HEADERS_TIMEOUT',
+    'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * HTTP status of a failed call: superagent (used by the generated client)
+ * sets error.status, createComparisonSession sets it on its own errors
+ */
+function getStatus(error: any): number | undefined {
+    const status = error?.status ?? error?.response?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Node error code of a failed connection; fetch puts it on error.cause
+ */
+function getNetworkCode(error: any): string | undefined {
+    const code = error?.code ?? error?.cause?.code;
+    return typeof code === 'string' && NETWORK_ERROR_CODES.has(code)
+        ? code
+        : undefined;
+}
+
+/**
+ * Turn an error thrown by an API call into one of the classes above
+ * Errors that didn't come from the HTTP layer (bugs, bad responses) are
+ * returned unchanged
+ */
+export function classifyApiError(
+    error: unknown,
+    portal: string,
+    method: string
+): unknown {
+    if (error instanceof CbioportalApiError) {
+        return error;
+    }
+
+    const status = getStatus(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (status === 404) {
+        return new CbioportalNotFoundError(message, portal, method);
+    }
+    if (status === 429 || (status !== undefined && status >= 500)) {
+        return new CbioportalUnavailableError(
+            `HTTP ${status}`,
+            portal,
+            method,
+            status
+        );
+    }
+    if (status !== undefined && status >= 400) {
+        return new CbioportalRequestError(message, portal, method, status);
+    }
+
+    const code = getNetworkCode(error);
+    if (code) {
+        return new CbioportalUnavailableError(code, portal, method);
+    }
+    // fetch reports connection failures as a bare TypeError
+    if (error instanceof TypeError && error.message === 'fetch failed') {
+        return new CbioportalUnavailableError(
+            'connection failed',
+            portal,
+            method
+        );
+    }
+    return error;
+}
@@ -0,0 +1,276 @@
+/**
+ * Offline cBioPortal API backed by local JSON fixtures
+ * Used for tests and for running the server without network access
+ * (CBIOPORTAL_FIXTURES_DIR)
+ *
+ * The directory holds one file per collection, in the API's own shapes:
+ * studies.json, genes.json, molecularProfiles.json, sampleLists.json
+ * (with sampleIds), patients.json, samples.json, clinicalAttributes.json,
+ * clinicalData.json, mutations.json and discreteCopyNumbers.json. Missing
+ * files are empty collections. Genes may list their aliases in `aliases`.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+    CancerStudy,
+    ClinicalAttribute,
+    ClinicalData,
+    DiscreteCopyNumberData,
+    Gene,
+    MolecularProfile,
+    Mutation,
+    Patient,
+    Sample,
+    SampleList,
+} from 'cbioportal-ts-api-client';
+import type { PortalApi } from './client.js';
+import type { ComparisonSession } from '../urlBuilders/comparison.js';
+
+type FixtureGene = Gene & { aliases?: string[] };
+
+interface Fixtures {
+    studies: CancerStudy[];
+    genes: FixtureGene[];
+    molecularProfiles: MolecularProfile[];
+    sampleLists: SampleList[];
+    patients: Patient[];
+    samples: Sample[];
+    clinicalAttributes: ClinicalAttribute[];
+    clinicalData: ClinicalData[];
+    mutations: Mutation[];
+    discreteCopyNumbers: DiscreteCopyNumberData[];
+}
+
+// Discrete copy number values of the event types the client queries
+const CNA_VALUES = { AMP: 2, HOMDEL: -2 };
+
+/**
+ * Error shaped like the generated client's, so it's classified the same way
+ */
+function notFound(message: string): Error {
+    return Object.assign(new Error(message), { status: 404 });
+}
+
+export class FixtureApi implements PortalApi {
+    private dir: string;
+    private fixtures: Partial<Fixtures> = {};
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    /**
+     * Read a collection on first use
+     */
+    private load<K extends keyof Fixtures>(name: K): Fixtures[K] {
+        if (!this.fixtures[name]) {
+            const file = join(this.dir, `${name}.json`);
+            this.fixtures[name] = existsSync(file)
+                ? JSON.parse(readFileSync(file, 'utf-8'))
+                : [];
+        }
+        return this.fixtures[name] as Fixtures[K];
+    }
+
+    /**
+     * Items of a study, with a 404 for unknown studies like the live API
+     */
+    private inStudy<K extends keyof Fixtures>(
+        name: K,
+        studyId: string
+    ): Fixtures[K] {
+        if (!this.load('studies').some((s) => s.studyId === studyId)) {
+            throw notFound(`Study not found: ${studyId}`);
+        }
+        return (this.load(name) as Array<{ studyId?: string }>).filter(
+            (item) => item.studyId === studyId
+        ) as Fixtures[K];
+    }
+
+    async getAllStudiesUsingGET(params: {}) {
+        return this.load('studies');
+    }
+
+    async getStudyUsingGET({ studyId }: { studyId: string }) {
+        const study = this.load('studies').find((s) => s.studyId === studyId);
+        if (!study) {
+            throw notFound(`Study not found: ${studyId}`);
+        }
+        return study;
+    }
+
+    async getGeneUsingGET({ geneId }: { geneId: string }) {
+        const gene = this.load('genes').find(
+            (g) =>
+                g.hugoGeneSymbol.toUpperCase() === geneId.toUpperCase() ||
+                String(g.entrezGeneId) === geneId
+        );
+        if (!gene) {
+            throw notFound(`Gene not found: ${geneId}`);
+        }
+        return gene;
+    }
+
+    async getAllGenesUsingGET({ alias }: { alias?: string }) {
+        const genes = this.load('genes');
+        if (!alias) {
+            return genes;
+        }
+        return genes.filter((g) =>
+            (g.aliases || []).some(
+                (a) => a.toUpperCase() === alias.toUpperCase()
+            )
+        );
+    }
+
+    async getAllMolecularProfilesInStudyUsingGET({
+        studyId,
+    }: {
+        studyId: string;
+    }) {
+        return this.inStudy('molecularProfiles', studyId);
+    }
+
+    async getAllSampleListsInStudyUsingGET({ studyId }: { studyId: string }) {
+        return this.inStudy('sampleLists', studyId);
+    }
+
+    async getAllSampleIdsInSampleListUsingGET({
+        sampleListId,
+    }: {
+        sampleListId: string;
+    }) {
+        const sampleList = this.load('sampleLists').find(
+            (l) => l.sampleListId === sampleListId
+        );
+        if (!sampleList) {
+            throw notFound(`Sample list not found: ${sampleListId}`);
+        }
+        return sampleList.sampleIds || [];
+    }
+
+    async getAllSamplesInStudyUsingGET({ studyId }: { studyId: string }) {
+        return this.inStudy('samples', studyId);
+    }
+
+    async getAllClinicalAttributesInStudyUsingGET({
+        studyId,
+    }: {
+        studyId: string;
+    }) {
+        return this.inStudy('clinicalAttributes', studyId);
+    }
+
+    async getAllClinicalDataInStudyUsingGET({
+        studyId,
+        attributeId,
+        clinicalDataType,
+    }: {
+        studyId: string;
+        attributeId: string;
+        clinicalDataType: 'SAMPLE' | 'PATIENT';
+    }) {
+        return this.inStudy('clinicalData', studyId).filter(
+            (d) =>
+                d.clinicalAttributeId === attributeId &&
+                (clinicalDataType === 'PATIENT') === !d.sampleId
+        );
+    }
+
+    async fetchMutationsInMolecularProfileUsingPOST({
+        molecularProfileId,
+        mutationFilter,
+    }: {
+        molecularProfileId: string;
+        mutationFilter: { entrezGeneIds: number[]; sampleIds: string[] };
+    }) {
+        return this.load('mutations').filter(
+            (m) =>
+                m.molecularProfileId === molecularProfileId &&
+                mutationFilter.entrezGeneIds.includes(m.entrezGeneId) &&
+                mutationFilter.sampleIds.includes(m.sampleId)
+        );
+    }
+
+    async fetchDiscreteCopyNumbersInMolecularProfileUsingPOST({
+        molecularProfileId,
+        discreteCopyNumberFilter,
+        discreteCopyNumberEventType,
+    }: {
+        molecularProfileId: string;
+        discreteCopyNumberFilter: {
+            entrezGeneIds: number[];
+            sampleIds: string[];
+        };
+        discreteCopyNumberEventType: 'AMP' | 'HOMDEL';
+    }) {
+        return this.load('discreteCopyNumbers').filter(
+            (c) =>
+                c.molecularProfileId === molecularProfileId &&
+                c.alteration === CNA_VALUES[discreteCopyNumberEventType] &&
+                discreteCopyNumberFilter.entrezGeneIds.includes(
+                    c.entrezGeneId
+                ) &&
+                discreteCopyNumberFilter.sampleIds.includes(c.sampleId)
+        );
+    }
+
+    async getAllPatientsInStudyUsingGET({ studyId }: { studyId: string }) {
+        return this.inStudy('patients', studyId);
+    }
+
+    async getPatientInStudyUsingGET({
+        studyId,
+        patientId,
+    }: {
+        studyId: string;
+        patientId: string;
+    }) {
+        const patient = this.inStudy('patients', studyId).find(
+            (p) => p.patientId === patientId
+        );
+        if (!patient) {
+            throw notFound(`Patient not found: ${patientId}`);
+        }
+        return patient;
+    }
+
+    async getAllPatientsUsingGET({ keyword }: { keyword: string }) {
+        const needle = keyword.toLowerCase();
+        return this.load('patients').filter((p) =>
+            p.patientId.toLowerCase().includes(needle)
+        );
+    }
+
+    async getAllSamplesUsingGET({ keyword }: { keyword: string }) {
+        const needle = keyword.toLowerCase();
+        return this.load('samples').filter((s) =>
+            s.sampleId.toLowerCase().includes(needle)
+        );
+    }
+
+    async getAllSamplesOfPatientInStudyUsingGET({
+        studyId,
+        patientId,
+    }: {
+        studyId: string;
+        patientId: string;
+    }) {
+        return this.inStudy('samples', studyId).filter(
+            (s) => s.patientId === patientId
+        );
+    }
+
+    /**
+     * Sessions aren't stored; the ID is derived from the content, so the
+     * same groups always get the same URL
+     */
+    async createComparisonSession(session: ComparisonSession) {
+        return createHash('sha256')
+            .update(JSON.stringify(session))
+            .digest('hex')
+            .slice(0, 24);
+    }
+}
@@ -0,0 +1,255 @@
+/**
+ * Timeouts, retries and circuit breaking for cBioPortal API calls
+ *
+ * CBIOPORTAL_API_TIMEOUT_MS: per-attempt timeout (default 20000)
+ * CBIOPORTAL_API_RETRIES: retries after an unavailable error (default 2)
+ * CBIOPORTAL_API_RETRY_DELAY_MS: base of the exponential backoff (default 250)
+ * CBIOPORTAL_CIRCUIT_THRESHOLD: consecutive failures that open the
+ *   circuit (default 5)
+ * CBIOPORTAL_CIRCUIT_COOLDOWN_SECONDS: how long an open circuit fails fast
+ *   before letting a trial request through (default 30)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+    classifyApiError,
+    CbioportalUnavailableError,
+    RequestAbortedError,
+} from './errors.js';
+
+export interface ResilienceConfig {
+    timeoutMs: number;
+    retries: number;
+    retryDelayMs: number;
+    circuitThreshold: number;
+    circuitCooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+function readNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0
+        ? value
+        : fallback;
+}
+
+export function getResilienceConfig(): ResilienceConfig {
+    return {
+        timeoutMs: readNumber('CBIOPORTAL_API_TIMEOUT_MS', 20000),
+        retries: readNumber('CBIOPORTAL_API_RETRIES', 2),
+        retryDelayMs: readNumber('CBIOPORTAL_API_RETRY_DELAY_MS', 250),
+        circuitThreshold: Math.max(
+            1,
+            readNumber('CBIOPORTAL_CIRCUIT_THRESHOLD', 5)
+        ),
+        circuitCooldownMs:
+            readNumber('CBIOPORTAL_CIRCUIT_COOLDOWN_SECONDS', 30) * 1000,
+    };
+}
+
+/**
+ * Stops calling a portal after repeated failures
+ * After the cooldown one trial request is let through (half-open); its
+ * outcome closes the circuit again or restarts the cooldown
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(
+        private threshold: number,
+        private cooldownMs: number
+    ) {}
+
+    get state(): CircuitState {
+        if (this.openedAt === null) {
+            return 'closed';
+        }
+        return Date.now() - this.openedAt >= this.cooldownMs
+            ? 'half-open'
+            : 'open';
+    }
+
+    /**
+     * Milliseconds until an open circuit lets a trial request through
+     */
+    retryAfterMs(): number {
+        if (this.openedAt === null) {
+            return 0;
+        }
+        return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+    }
+
+    /**
+     * Whether a request may be sent now; in the half-open state only one
+     */
+    tryAcquire(): boolean {
+        const state = this.state;
+        if (state === 'closed') {
+            return true;
+        }
+        if (state === 'half-open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Record the outcome of a request; failed means the portal was unavailable
+     */
+    record(failed: boolean) {
+        this.trialInFlight = false;
+        if (!failed) {
+            this.failures = 0;
+            this.openedAt = null;
+            return;
+        }
+
+        this.failures++;
+        if (this.openedAt !== null || this.failures >= this.threshold) {
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+const breakers: Map<string, CircuitBreaker> = new Map();
+
+const abortSignals = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run fn as part of a request that may be given up; once signal aborts,
+ * API calls made by fn fail with RequestAbortedError instead of being sent
+ */
+export function runWithAbortSignal<R>(
+    signal: AbortSignal | undefined,
+    fn: () => R
+): R {
+    return signal ? abortSignals.run(signal, fn) : fn();
+}
+
+/**
+ * The circuit breaker for a portal, shared by all requests to it
+ */
+export function getCircuitBreaker(portal: string): CircuitBreaker {
+    let breaker = breakers.get(portal);
+    if (!breaker) {
+        const config = getResilienceConfig();
+        breaker = new CircuitBreaker(
+            config.circuitThreshold,
+            config.circuitCooldownMs
+        );
+        breakers.set(portal, breaker);
+    }
+    return breaker;
+}
+
+/**
+ * Circuit state of every portal that has been called
+ */
+export function getCircuitStates(): Array<{
+    portal: string;
+    state: CircuitState;
+}> {
+    return [...breakers.entries()].map(([portal, breaker]) => ({
+        portal,
+        state: breaker.state,
+    }));
+}
+
+/**
+ * Reject with the given error if the promise doesn't settle in time
+ * The request itself isn't aborted; its late result is ignored
+ */
+function withTimeout<T>(
+    promise: Promise<T>,
+    ms: number,
+    onTimeout: () => Error
+): Promise<T> {
+    if (ms <= 0) {
+        return promise;
+    }
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(onTimeout()), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffMs(attempt: number, baseMs: number): number {
+    return Math.random() * baseMs * 2 ** attempt;
+}
+
+export interface CallOptions {
+    portal: string;
+    method: string;
+    // False for calls that aren't safe to repeat
+    retry: boolean;
+    onRetry?: (attempt: number, error: CbioportalUnavailableError) => void;
+}
+
+/**
+ * Call the portal with a timeout, retrying unavailable errors with backoff
+ * Errors are classified (see errors.ts); while the portal's circuit is open
+ * calls fail fast with CbioportalUnavailableError
+ */
+export async function callWithResilience<T>(
+    fn: () => Promise<T>,
+    { portal, method, retry, onRetry }: CallOptions
+): Promise<T> {
+    const config = getResilienceConfig();
+    const breaker = getCircuitBreaker(portal);
+    const maxAttempts = retry ? config.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+        // Checked before every attempt; a call already in flight runs to
+        // completion so the circuit breaker still sees its outcome
+        if (abortSignals.getStore()?.aborted) {
+            throw new RequestAbortedError(
+                `Request was aborted; ${method} was not sent`
+            );
+        }
+        if (!breaker.tryAcquire()) {
+            const seconds = Math.ceil(breaker.retryAfterMs() / 1000);
+            throw new CbioportalUnavailableError(
+                `calls paused after repeated failures, resuming in ${seconds}s`,
+                portal,
+                method
+            );
+        }
+
+        try {
+            const result = await withTimeout(
+                fn(),
+                config.timeoutMs,
+                () =>
+                    new CbioportalUnavailableError(
+                        `no response within ${config.timeoutMs}ms`,
+                        portal,
+                        method
+                    )
+            );
+            breaker.record(false);
+            return result;
+        } catch (error) {
+            const classified = classifyApiError(error, portal, method);
+            const unavailable =
+                classified instanceof CbioportalUnavailableError;
+            // A 404 or a bug on our side still means the portal answered
+            breaker.record(unavailable);
+
+            if (!unavailable || attempt >= maxAttempts) {
+                throw classified;
+            }
+            onRetry?.(attempt, classified);
+            await new Promise((resolve) =>
+                setTimeout(resolve, backoffMs(attempt - 1, config.retryDelayMs))
+            );
+        }
+    }
+}
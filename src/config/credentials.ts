@@ -0,0 +1,77 @@
+/**
+ * Credentials for upstream cBioPortal API calls
+ *
+ * A portal's own token (see portals.ts) is used by default. In HTTP mode,
+ * portals with forwardToken set use the token the MCP client sent in the
+ * X-cBioPortal-Token header instead, so each user only sees the studies
+ * they have access to.
+ */
+
+import { createHash } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getCurrentPortal, type PortalConfig } from './portals.js';
+
+// Incoming MCP request header carrying the user's data access token
+export const FORWARDED_TOKEN_HEADER = 'x-cbioportal-token';
+
+const forwardedToken = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn on behalf of a user; portals that accept forwarded tokens use theirs
+ */
+export function runWithForwardedToken<R>(
+    token: string | undefined,
+    fn: () => R
+): R {
+    return token ? forwardedToken.run(token, fn) : fn();
+}
+
+function getForwardedToken(portal: PortalConfig): string | undefined {
+    return portal.forwardToken ? forwardedToken.getStore() : undefined;
+}
+
+/**
+ * Token to send to a portal's API for the current request, if any
+ */
+export function getToken(
+    portal: PortalConfig = getCurrentPortal()
+): string | undefined {
+    return getForwardedToken(portal) || portal.token;
+}
+
+/**
+ * Cache key prefix for the current portal and identity
+ * Data fetched with a forwarded token is cached per token, so one user's
+ * private studies never show up for another; everything else is shared
+ * by all users of the portal
+ */
+export function getCacheScope(
+    portal: PortalConfig = getCurrentPortal()
+): string {
+    const token = getForwardedToken(portal);
+    if (!token) {
+        return portal.cacheNamespace;
+    }
+
+    // Never keep raw tokens in cache keys, which may be written to disk
+    const identity = createHash('sha256')
+        .update(token)
+        .digest('hex')
+        .slice(0, 16);
+    return `${portal.cacheNamespace}:user-${identity}`;
+}
+
+/**
+ * Whether a cache key prefix belongs to a portal, for any identity
+ */
+export function isCacheScopeOf(
+    scope: string,
+    portal: PortalConfig = getCurrentPortal()
+): boolean {
+    const userScope = `${portal.cacheNamespace}:user-`;
+    return (
+        scope === portal.cacheNamespace ||
+        (scope.startsWith(userScope) &&
+            /^[0-9a-f]+$/.test(scope.slice(userScope.length)))
+    );
+}
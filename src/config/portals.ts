@@ -0,0 +1,235 @@
+/**
+ * cBioPortal instances this server can talk to
+ *
+ * Portals are loaded once, from the JSON file named by CBIOPORTAL_PORTALS_FILE
+ * or inline JSON in CBIOPORTAL_PORTALS:
+ *
+ *   {
+ *     "default": "public",
+ *     "portals": {
+ *       "public": { "baseUrl": "https://www.cbioportal.org" },
+ *       "genie": { "baseUrl": "https://genie.cbioportal.org", "tokenEnv": "GENIE_TOKEN" }
+ *     }
+ *   }
+ *
+ * Without either, a single "default" portal is built from CBIOPORTAL_BASE_URL,
+ * CBIOPORTAL_API_URL, CBIOPORTAL_TOKEN and CBIOPORTAL_FORWARD_TOKEN.
+ */
+
+import fs from 'node:fs';
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface PortalConfig {
+    name: string;
+    // Where users open pages, e.g. "https://www.cbioportal.org"
+    baseUrl: string;
+    // Where the REST API is served; usually the same as baseUrl
+    apiUrl: string;
+    // Data access token, sent to the API as a Bearer token
+    token?: string;
+    // Use the token forwarded with each HTTP request instead, when present
+    forwardToken: boolean;
+    // Prefix for this portal's cache keys
+    cacheNamespace: string;
+}
+
+interface PortalFileEntry {
+    baseUrl: string;
+    apiUrl?: string;
+    token?: string;
+    // Name of an environment variable holding the token, to keep it out of the file
+    tokenEnv?: string;
+    forwardToken?: boolean;
+    cacheNamespace?: string;
+}
+
+interface PortalFile {
+    default?: string;
+    portals: Record<string, PortalFileEntry>;
+}
+
+interface PortalRegistry {
+    portals: Map<string, PortalConfig>;
+    defaultName: string;
+}
+
+export class PortalConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PortalConfigError';
+    }
+}
+
+export const DEFAULT_PORTAL_URL = 'https://www.cbioportal.org';
+
+/**
+ * Normalize a portal URL: add https:// when no protocol is given and drop
+ * trailing slashes, so "www.cbioportal.org/" becomes "https://www.cbioportal.org"
+ */
+export function normalizePortalUrl(url: string): string {
+    const trimmed = url.trim();
+    const withProtocol = /^https?:\/\//i.test(trimmed)
+        ? trimmed
+        : `https://${trimmed}`;
+
+    let parsed: URL;
+    try {
+        parsed = new URL(withProtocol);
+    } catch (error) {
+        throw new PortalConfigError(`Invalid portal URL "${url}"`);
+    }
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname}`.replace(
+        /\/+$/,
+        ''
+    );
+}
+
+/**
+ * Host and path of a portal URL, without protocol (e.g. "www.cbioportal.org")
+ */
+export function getPortalHost(url: string): string {
+    return normalizePortalUrl(url).replace(/^https?:\/\//i, '');
+}
+
+let registry: PortalRegistry | null = null;
+
+function toPortalConfig(name: string, entry: PortalFileEntry): PortalConfig {
+    if (!entry || !entry.baseUrl) {
+        throw new PortalConfigError(`Portal "${name}" has no baseUrl`);
+    }
+
+    const token = entry.tokenEnv ? process.env[entry.tokenEnv] : entry.token;
+    if (entry.tokenEnv && !token) {
+        throw new PortalConfigError(
+            `Portal "${name}" reads its token from ${entry.tokenEnv}, which is not set`
+        );
+    }
+
+    return {
+        name,
+        baseUrl: normalizePortalUrl(entry.baseUrl),
+        apiUrl: normalizePortalUrl(entry.apiUrl || entry.baseUrl),
+        token,
+        forwardToken: entry.forwardToken === true,
+        cacheNamespace: entry.cacheNamespace || name,
+    };
+}
+
+function readPortalFile(): PortalFile | null {
+    const filePath = process.env.CBIOPORTAL_PORTALS_FILE;
+    const raw = filePath
+        ? fs.readFileSync(filePath, 'utf8')
+        : process.env.CBIOPORTAL_PORTALS;
+    if (!raw) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        throw new PortalConfigError(
+            `Portal configuration${filePath ? ` in ${filePath}` : ''} is not valid JSON`
+        );
+    }
+}
+
+function loadRegistry(): PortalRegistry {
+    const file = readPortalFile();
+
+    if (!file) {
+        const baseUrl = process.env.CBIOPORTAL_BASE_URL || DEFAULT_PORTAL_URL;
+        const portal = toPortalConfig('default', {
+            baseUrl,
+            apiUrl: process.env.CBIOPORTAL_API_URL,
+            token: process.env.CBIOPORTAL_TOKEN,
+            forwardToken: process.env.CBIOPORTAL_FORWARD_TOKEN === 'true',
+        });
+        return {
+            portals: new Map([[portal.name, portal]]),
+            defaultName: portal.name,
+        };
+    }
+
+    const names = Object.keys(file.portals || {});
+    if (names.length === 0) {
+        throw new PortalConfigError('Portal configuration lists no portals');
+    }
+
+    const portals = new Map(
+        names.map((name) => [name, toPortalConfig(name, file.portals[name])])
+    );
+    const defaultName = file.default || names[0];
+    if (!portals.has(defaultName)) {
+        throw new PortalConfigError(
+            `Default portal "${defaultName}" is not configured`
+        );
+    }
+
+    return { portals, defaultName };
+}
+
+function getRegistry(): PortalRegistry {
+    if (!registry) {
+        registry = loadRegistry();
+    }
+    return registry;
+}
+
+/**
+ * All configured portals, default first
+ */
+export function getPortals(): PortalConfig[] {
+    const { portals, defaultName } = getRegistry();
+    return [
+        portals.get(defaultName),
+        ...[...portals.values()].filter((p) => p.name !== defaultName),
+    ];
+}
+
+export function getDefaultPortal(): PortalConfig {
+    const { portals, defaultName } = getRegistry();
+    return portals.get(defaultName);
+}
+
+/**
+ * Get a portal by name, or the default portal when no name is given
+ */
+export function getPortal(name?: string): PortalConfig {
+    if (!name) {
+        return getDefaultPortal();
+    }
+
+    const portal = getRegistry().portals.get(name);
+    if (!portal) {
+        throw new PortalConfigError(
+            `Unknown portal "${name}" (available: ${getPortals()
+                .map((p) => p.name)
+                .join(', ')})`
+        );
+    }
+    return portal;
+}
+
+/**
+ * Find the portal serving a URL's host, e.g. "genie.cbioportal.org"
+ */
+export function findPortalByHost(host: string): PortalConfig | undefined {
+    return getPortals().find((p) => getPortalHost(p.baseUrl) === host);
+}
+
+const currentPortal = new AsyncLocalStorage<PortalConfig>();
+
+/**
+ * Run fn with the named portal selected; API calls, cache lookups and URLs
+ * made inside it (including async continuations) use that portal
+ */
+export function runWithPortal<R>(name: string | undefined, fn: () => R): R {
+    return currentPortal.run(getPortal(name), fn);
+}
+
+/**
+ * The portal selected for the current request, or the default portal
+ */
+export function getCurrentPortal(): PortalConfig {
+    return currentPortal.getStore() || getDefaultPortal();
+}
@@ -0,0 +1,36 @@
+/**
+ * JSON-RPC error responses for HTTP failures that happen outside of MCP
+ * message handling (authentication, limits, unknown sessions, ...)
+ */
+
+import type express from 'express';
+
+// JSON-RPC 2.0 error codes; -32000 to -32099 are for server-defined errors
+export const JSON_RPC_PARSE_ERROR = -32700;
+export const JSON_RPC_INVALID_REQUEST = -32600;
+export const JSON_RPC_INTERNAL_ERROR = -32603;
+export const JSON_RPC_SERVER_ERROR = -32000;
+export const JSON_RPC_SESSION_NOT_FOUND = -32001;
+export const JSON_RPC_UNAUTHORIZED = -32002;
+export const JSON_RPC_FORBIDDEN = -32003;
+export const JSON_RPC_RATE_LIMITED = -32004;
+export const JSON_RPC_TIMEOUT = -32005;
+
+/**
+ * Send a JSON-RPC error response, unless a response was already started
+ */
+export function sendJsonRpcError(
+    res: express.Response,
+    status: number,
+    code: number,
+    message: string
+) {
+    if (res.headersSent) {
+        return;
+    }
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+    });
+}
@@ -0,0 +1,308 @@
+/**
+ * Protection for the HTTP MCP endpoint: API keys, CORS, rate limiting,
+ * concurrency caps and request time limits
+ * Every rejection is answered with a JSON-RPC error
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type express from 'express';
+import {
+    JSON_RPC_FORBIDDEN,
+    JSON_RPC_INVALID_REQUEST,
+    JSON_RPC_PARSE_ERROR,
+    JSON_RPC_RATE_LIMITED,
+    JSON_RPC_TIMEOUT,
+    JSON_RPC_UNAUTHORIZED,
+    sendJsonRpcError,
+} from './jsonRpc.js';
+import { FORWARDED_TOKEN_HEADER } from '../config/credentials.js';
+
+export interface HttpSecurityConfig {
+    // API key → client name; empty means no authentication
+    apiKeys: Map<string, string>;
+    // Allowed browser origins; empty means no cross-origin access, "*" any
+    allowedOrigins: string[];
+    requestsPerMinute: number;
+    maxConcurrentRequests: number;
+    maxBodySize: string;
+    requestTimeoutMs: number;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Read the HTTP security settings from the environment
+ */
+export function getHttpSecurityConfig(): HttpSecurityConfig {
+    return {
+        apiKeys: parseApiKeys(process.env.MCP_API_KEYS || ''),
+        allowedOrigins: splitList(process.env.MCP_ALLOWED_ORIGINS || ''),
+        requestsPerMinute: parseInt(process.env.MCP_RATE_LIMIT || '120'),
+        maxConcurrentRequests: parseInt(
+            process.env.MCP_MAX_CONCURRENT_REQUESTS || '10'
+        ),
+        maxBodySize: process.env.MCP_MAX_BODY_SIZE || '1mb',
+        requestTimeoutMs:
+            parseInt(process.env.MCP_REQUEST_TIMEOUT_SECONDS || '60') * 1000,
+    };
+}
+
+function splitList(value: string): string[] {
+    return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Parse "name:key" pairs (or bare keys, named by position)
+ */
+function parseApiKeys(value: string): Map<string, string> {
+    const keys = new Map<string, string>();
+    splitList(value).forEach((entry, index) => {
+        const separator = entry.indexOf(':');
+        if (separator > 0) {
+            keys.set(entry.slice(separator + 1), entry.slice(0, separator));
+        } else {
+            keys.set(entry, `key-${index + 1}`);
+        }
+    });
+    return keys;
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * The client a request is accounted to: its API key name, else its IP
+ */
+function getClientId(req: express.Request, res: express.Response): string {
+    return res.locals.clientName || req.ip || 'unknown';
+}
+
+/**
+ * Answer CORS preflights and reject browser requests from other origins
+ */
+export function cors(allowedOrigins: string[]): express.RequestHandler {
+    const allowAny = allowedOrigins.includes('*');
+
+    return (req, res, next) => {
+        const origin = req.get('origin');
+        if (!origin) {
+            // Not a browser cross-origin request
+            next();
+            return;
+        }
+
+        if (!allowAny && !allowedOrigins.includes(origin)) {
+            sendJsonRpcError(
+                res,
+                403,
+                JSON_RPC_FORBIDDEN,
+                `Origin ${origin} is not allowed`
+            );
+            return;
+        }
+
+        res.set('Access-Control-Allow-Origin', origin);
+        res.set('Vary', 'Origin');
+        res.set('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+
+        if (req.method === 'OPTIONS') {
+            res.set('Access-Control-Allow-Methods', 'GET, POST, DELETE');
+            res.set(
+                'Access-Control-Allow-Headers',
+                [
+                    'Content-Type',
+                    'Authorization',
+                    'X-API-Key',
+                    'Mcp-Session-Id',
+                    'Mcp-Protocol-Version',
+                    'Last-Event-ID',
+                    FORWARDED_TOKEN_HEADER,
+                ].join(', ')
+            );
+            res.set('Access-Control-Max-Age', '600');
+            res.sendStatus(204);
+            return;
+        }
+        next();
+    };
+}
+
+/**
+ * Require one of the configured API keys, sent as "Authorization: Bearer <key>"
+ * or "X-API-Key: <key>"; does nothing when no keys are configured
+ */
+export function requireApiKey(
+    apiKeys: Map<string, string>
+): express.RequestHandler {
+    const known = [...apiKeys].map(([key, name]) => ({
+        digest: digest(key),
+        name,
+    }));
+
+    return (req, res, next) => {
+        if (known.length === 0) {
+            next();
+            return;
+        }
+
+        const authorization = req.get('authorization') || '';
+        const given =
+            req.get('x-api-key') ||
+            (/^Bearer\s+/i.test(authorization)
+                ? authorization.replace(/^Bearer\s+/i, '')
+                : '');
+        // Compare digests so every comparison takes the same time
+        const givenDigest = digest(given);
+        const match = given
+            ? known.find((k) => timingSafeEqual(k.digest, givenDigest))
+            : undefined;
+
+        if (!match) {
+            res.set('WWW-Authenticate', 'Bearer');
+            sendJsonRpcError(
+                res,
+                401,
+                JSON_RPC_UNAUTHORIZED,
+                'Unauthorized: a valid API key is required'
+            );
+            return;
+        }
+
+        res.locals.clientName = match.name;
+        next();
+    };
+}
+
+/**
+ * Limit each client to requestsPerMinute requests (fixed one-minute windows)
+ * and maxConcurrent requests in flight
+ */
+export function rateLimit(
+    requestsPerMinute: number,
+    maxConcurrent: number
+): express.RequestHandler {
+    const windows: Map<string, { start: number; count: number }> = new Map();
+    const inFlight: Map<string, number> = new Map();
+
+    // Forget clients whose window has passed
+    setInterval(() => {
+        const now = Date.now();
+        for (const [client, window] of windows) {
+            if (now - window.start >= RATE_WINDOW_MS) {
+                windows.delete(client);
+            }
+        }
+    }, RATE_WINDOW_MS).unref();
+
+    return (req, res, next) => {
+        const client = getClientId(req, res);
+        const now = Date.now();
+
+        let window = windows.get(client);
+        if (!window || now - window.start >= RATE_WINDOW_MS) {
+            window = { start: now, count: 0 };
+            windows.set(client, window);
+        }
+        if (window.count >= requestsPerMinute) {
+            const retryAfter = Math.ceil(
+                (window.start + RATE_WINDOW_MS - now) / 1000
+            );
+            res.set('Retry-After', String(retryAfter));
+            sendJsonRpcError(
+                res,
+                429,
+                JSON_RPC_RATE_LIMITED,
+                `Rate limit exceeded (${requestsPerMinute} requests per minute)`
+            );
+            return;
+        }
+
+        const active = inFlight.get(client) || 0;
+        if (active >= maxConcurrent) {
+            res.set('Retry-After', '1');
+            sendJsonRpcError(
+                res,
+                429,
+                JSON_RPC_RATE_LIMITED,
+                `Too many concurrent requests (max ${maxConcurrent})`
+            );
+            return;
+        }
+
+        window.count++;
+        // SSE streams stay open for the whole session, so they don't
+        // count as concurrent requests
+        if (req.method !== 'GET') {
+            inFlight.set(client, active + 1);
+            res.on('close', () => {
+                const remaining = (inFlight.get(client) || 1) - 1;
+                if (remaining > 0) {
+                    inFlight.set(client, remaining);
+                } else {
+                    inFlight.delete(client);
+                }
+            });
+        }
+        next();
+    };
+}
+
+/**
+ * Fail requests that take longer than timeoutMs
+ * The request's work is stopped too: res.locals.abortSignal aborts when the
+ * time is up, and the handler runs its work under it (see
+ * runWithAbortSignal), so no further cBioPortal API calls are made
+ * SSE streams (GET) are long-lived and exempt
+ */
+export function requestTimeout(timeoutMs: number): express.RequestHandler {
+    return (req, res, next) => {
+        if (req.method === 'GET') {
+            next();
+            return;
+        }
+
+        const controller = new AbortController();
+        res.locals.abortSignal = controller.signal;
+        const timer = setTimeout(() => {
+            controller.abort();
+            sendJsonRpcError(
+                res,
+                503,
+                JSON_RPC_TIMEOUT,
+                `Request timed out after ${timeoutMs / 1000} s`
+            );
+        }, timeoutMs);
+        res.on('close', () => clearTimeout(timer));
+        next();
+    };
+}
+
+/**
+ * Turn body parser failures (malformed JSON, oversized bodies) into
+ * JSON-RPC errors instead of Express' HTML error pages
+ */
+export function jsonRpcBodyErrors(
+    error: any,
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    if (error?.type === 'entity.parse.failed') {
+        sendJsonRpcError(res, 400, JSON_RPC_PARSE_ERROR, 'Parse error');
+        return;
+    }
+    if (error?.type === 'entity.too.large') {
+        sendJsonRpcError(
+            res,
+            413,
+            JSON_RPC_INVALID_REQUEST,
+            `Request body too large (limit ${error.limit} bytes)`
+        );
+        return;
+    }
+    next(error);
+}
@@ -0,0 +1,238 @@
+/**
+ * Stateful Streamable HTTP sessions
+ * Each session keeps its own MCP server and transport, so clients can open
+ * a GET /mcp SSE stream for notifications and progress updates, and end
+ * the session with DELETE /mcp
+ */
+
+import { randomUUID } from 'node:crypto';
+import type express from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+    JSON_RPC_SERVER_ERROR,
+    JSON_RPC_SESSION_NOT_FOUND,
+    sendJsonRpcError,
+} from './jsonRpc.js';
+import { logger } from '../observability/logger.js';
+
+const log = logger.child({ component: 'sessions' });
+
+export interface SessionManagerOptions {
+    maxSessions: number;
+    idleMinutes: number;
+}
+
+interface Session {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport;
+    // API key name of the client that started the session (unset when
+    // the endpoint needs no key); other keys can't use it
+    owner?: string;
+    lastActivity: number;
+    // Open GET /mcp streams; a session with one is never idle
+    openStreams: number;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class McpSessionManager {
+    private sessions: Map<string, Session> = new Map();
+    private createServer: () => McpServer;
+    private maxSessions: number;
+    private idleMs: number;
+    private sweepTimer: NodeJS.Timeout;
+
+    constructor(createServer: () => McpServer, options: SessionManagerOptions) {
+        this.createServer = createServer;
+        this.maxSessions = options.maxSessions;
+        this.idleMs = options.idleMinutes * 60 * 1000;
+        this.sweepTimer = setInterval(
+            () => this.closeIdleSessions(),
+            SWEEP_INTERVAL_MS
+        );
+        // Don't keep the process alive just to expire sessions
+        this.sweepTimer.unref();
+    }
+
+    size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Handle POST /mcp: route to the caller's session, or start a new one
+     * for an initialize request
+     */
+    async handlePost(req: express.Request, res: express.Response) {
+        const sessionId = req.get('mcp-session-id');
+        if (sessionId) {
+            const session = this.getSession(sessionId, res);
+            if (session) {
+                await session.transport.handleRequest(req, res, req.body);
+            }
+            return;
+        }
+
+        if (!isInitializeRequest(req.body)) {
+            sendJsonRpcError(
+                res,
+                400,
+                JSON_RPC_SERVER_ERROR,
+                'Bad Request: missing Mcp-Session-Id header (send initialize first)'
+            );
+            return;
+        }
+
+        if (this.sessions.size >= this.maxSessions) {
+            res.set('Retry-After', '60');
+            sendJsonRpcError(
+                res,
+                503,
+                JSON_RPC_SERVER_ERROR,
+                'Too many active sessions, try again later'
+            );
+            return;
+        }
+
+        const session = this.createSession(res.locals.clientName);
+        await session.server.connect(session.transport);
+        await session.transport.handleRequest(req, res, req.body);
+    }
+
+    /**
+     * Handle GET /mcp (SSE stream) and DELETE /mcp (end the session)
+     */
+    async handleSessionRequest(req: express.Request, res: express.Response) {
+        const sessionId = req.get('mcp-session-id');
+        if (!sessionId) {
+            sendJsonRpcError(
+                res,
+                400,
+                JSON_RPC_SERVER_ERROR,
+                'Bad Request: missing Mcp-Session-Id header'
+            );
+            return;
+        }
+
+        const session = this.getSession(sessionId, res);
+        if (!session) {
+            return;
+        }
+
+        if (req.method === 'GET') {
+            session.openStreams++;
+            res.on('close', () => {
+                session.openStreams--;
+                session.lastActivity = Date.now();
+            });
+        }
+        await session.transport.handleRequest(req, res);
+    }
+
+    /**
+     * Close every session, e.g. on shutdown
+     */
+    async closeAll() {
+        clearInterval(this.sweepTimer);
+        await Promise.all(
+            [...this.sessions.keys()].map((id) => this.close(id))
+        );
+    }
+
+    private createSession(owner: string | undefined): Session {
+        const session: Session = {
+            server: this.createServer(),
+            owner,
+            transport: new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (id) => {
+                    this.sessions.set(id, session);
+                    log.info('MCP session started', {
+                        sessionId: id,
+                        activeSessions: this.sessions.size,
+                    });
+                },
+            }),
+            lastActivity: Date.now(),
+            openStreams: 0,
+        };
+
+        // Covers DELETE /mcp, idle expiry and dropped connections
+        session.transport.onclose = () => {
+            const id = session.transport.sessionId;
+            if (id && this.sessions.get(id) === session) {
+                this.sessions.delete(id);
+                log.info('MCP session closed', {
+                    sessionId: id,
+                    activeSessions: this.sessions.size,
+                });
+                session.server.close().catch((error) => {
+                    log.error('Error closing session', {
+                        sessionId: id,
+                        error,
+                    });
+                });
+            }
+        };
+
+        return session;
+    }
+
+    /**
+     * Look up a session, answering 404 for unknown or expired IDs so the
+     * client knows to start a new one
+     * Sessions started with another API key get the same answer, so a
+     * leaked session ID neither works nor reveals the session exists
+     */
+    private getSession(
+        sessionId: string,
+        res: express.Response
+    ): Session | undefined {
+        let session = this.sessions.get(sessionId);
+        if (session && session.owner !== res.locals.clientName) {
+            log.warn('MCP session used with another API key', {
+                sessionId,
+                owner: session.owner,
+                client: res.locals.clientName,
+            });
+            session = undefined;
+        }
+        if (!session) {
+            sendJsonRpcError(
+                res,
+                404,
+                JSON_RPC_SESSION_NOT_FOUND,
+                'Session not found'
+            );
+            return undefined;
+        }
+        session.lastActivity = Date.now();
+        return session;
+    }
+
+    private async close(sessionId: string) {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+            await session.transport.close();
+        }
+    }
+
+    private closeIdleSessions() {
+        const now = Date.now();
+        for (const [id, session] of this.sessions) {
+            if (
+                session.openStreams === 0 &&
+                now - session.lastActivity > this.idleMs
+            ) {
+                log.info('Closing idle MCP session', { sessionId: id });
+                this.close(id).catch((error) => {
+                    log.error('Error closing session', {
+                        sessionId: id,
+                        error,
+                    });
+                });
+            }
+        }
+    }
+}
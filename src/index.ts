@@ -8,29 +8,246 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import express from 'express';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
 
-import { setConfig } from './urlBuilders/config.js';
 import { createMcpServer } from './server.js';
+import { McpSessionManager } from './http/sessions.js';
+import {
+    cors,
+    getHttpSecurityConfig,
+    jsonRpcBodyErrors,
+    rateLimit,
+    requestTimeout,
+    requireApiKey,
+} from './http/security.js';
+import {
+    JSON_RPC_INTERNAL_ERROR,
+    JSON_RPC_SERVER_ERROR,
+    sendJsonRpcError,
+} from './http/jsonRpc.js';
+import { studyResolver } from './resolution/studyResolver.js';
+import { caches } from './api/cache.js';
+import { runWithAbortSignal } from './api/resilience.js';
+import {
+    getDefaultPortal,
+    getPortals,
+    PortalConfigError,
+    runWithPortal,
+} from './config/portals.js';
+import {
+    FORWARDED_TOKEN_HEADER,
+    runWithForwardedToken,
+} from './config/credentials.js';
+import { logger, runWithRequestId } from './observability/logger.js';
+import {
+    httpRequests,
+    METRICS_CONTENT_TYPE,
+    renderMetrics,
+} from './observability/metrics.js';
 
 /**
- * Start server in stdio mode (for Claude Desktop)
+ * Load each portal's study catalog in the background so the first query is fast
+ * Enabled with CBIOPORTAL_CACHE_WARMUP=true
  */
-async function startStdio() {
-    // Configure base URL from environment
-    if (process.env.CBIOPORTAL_BASE_URL) {
-        setConfig({
-            baseUrl: process.env.CBIOPORTAL_BASE_URL,
+function warmUpCaches() {
+    if (process.env.CBIOPORTAL_CACHE_WARMUP !== 'true') {
+        return;
+    }
+
+    for (const portal of getPortals()) {
+        const start = Date.now();
+        runWithPortal(portal.name, () => studyResolver.getAll())
+            .then((studies) => {
+                logger.info('Cache warm-up finished', {
+                    portal: portal.name,
+                    studies: studies.length,
+                    durationMs: Date.now() - start,
+                });
+            })
+            .catch((error) => {
+                logger.error('Cache warm-up failed', {
+                    portal: portal.name,
+                    error,
+                });
+            });
+    }
+}
+
+/**
+ * Log the configured portals at startup
+ */
+function logPortals() {
+    for (const portal of getPortals()) {
+        logger.info('Portal configured', {
+            portal: portal.name,
+            baseUrl: portal.baseUrl,
+            apiUrl: portal.apiUrl,
+            default: portal.name === getDefaultPortal().name,
+        });
+    }
+}
+
+/**
+ * Run an MCP request handler with the request ID, the user's forwarded
+ * data access token (if any) and the request's timeout signal in context
+ * Done in the handler rather than in middleware, because body parsing
+ * loses the async context
+ */
+function inRequestContext<R>(
+    req: express.Request,
+    res: express.Response,
+    fn: () => R
+): R {
+    return runWithRequestId(res.locals.requestId, () =>
+        runWithForwardedToken(req.get(FORWARDED_TOKEN_HEADER), () =>
+            runWithAbortSignal(res.locals.abortSignal, fn)
+        )
+    );
+}
+
+/**
+ * Assign each HTTP request an ID (or reuse the caller's X-Request-Id),
+ * then count and log it when it completes
+ */
+function trackHttpRequests(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    const requestId = req.get('x-request-id') || randomUUID();
+    res.locals.requestId = requestId;
+    res.set('X-Request-Id', requestId);
+
+    const start = Date.now();
+    res.on('finish', () => {
+        // Only known routes as labels, so scanners can't blow up cardinality
+        const path = ['/mcp', '/health', '/metrics'].includes(req.path)
+            ? req.path
+            : req.path.startsWith('/admin/')
+              ? '/admin'
+              : 'other';
+        httpRequests.inc({
+            method: req.method,
+            path,
+            status: String(res.statusCode),
         });
+
+        const fields = {
+            requestId,
+            method: req.method,
+            path: req.path,
+            status: res.statusCode,
+            client: res.locals.clientName || req.ip,
+            durationMs: Date.now() - start,
+        };
+        if (path === '/health' || path === '/metrics') {
+            logger.debug('HTTP request', fields);
+        } else {
+            logger.info('HTTP request', fields);
+        }
+    });
+    next();
+}
+
+/**
+ * Require the admin token (CBIOPORTAL_ADMIN_TOKEN) as a Bearer token
+ */
+function requireAdminToken(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    const expected = Buffer.from(process.env.CBIOPORTAL_ADMIN_TOKEN || '');
+    const header = req.headers.authorization || '';
+    const given = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+
+    if (
+        expected.length === 0 ||
+        given.length !== expected.length ||
+        !timingSafeEqual(given, expected)
+    ) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
     }
+    next();
+}
 
+/**
+ * Cache inspection and purging, e.g. after a portal data release
+ * Only enabled when CBIOPORTAL_ADMIN_TOKEN is set
+ */
+function createAdminRouter() {
+    const router = express.Router();
+    router.use(requireAdminToken);
+
+    // Stats for every cache
+    router.get('/cache', (req, res) => {
+        res.json({
+            caches: Object.values(caches).map((cache) => cache.getStats()),
+        });
+    });
+
+    // Purge a whole cache, or a single entry with ?key=
+    router.delete('/cache/:name', (req, res) => {
+        const cache = caches[req.params.name];
+        if (!cache) {
+            res.status(404).json({
+                error: `Unknown cache "${req.params.name}"`,
+                caches: Object.keys(caches),
+            });
+            return;
+        }
+
+        // Keys are stored per portal and identity; ?portal= selects the
+        // portal, and every user's copy of the key is purged
+        const key = req.query.key;
+        if (typeof key === 'string') {
+            const portal =
+                typeof req.query.portal === 'string'
+                    ? req.query.portal
+                    : undefined;
+            try {
+                const purged = runWithPortal(portal, () => cache.purge(key));
+                res.json({ cache: cache.name, key, purged });
+            } catch (error) {
+                if (!(error instanceof PortalConfigError)) {
+                    throw error;
+                }
+                res.status(404).json({ error: error.message });
+            }
+            return;
+        }
+
+        const purged = cache.size();
+        cache.clear();
+        res.json({ cache: cache.name, purged });
+    });
+
+    return router;
+}
+
+/**
+ * Answer a failed MCP request with a JSON-RPC internal error
+ */
+function sendInternalError(res: express.Response) {
+    sendJsonRpcError(
+        res,
+        500,
+        JSON_RPC_INTERNAL_ERROR,
+        'Internal server error'
+    );
+}
+
+/**
+ * Start server in stdio mode (for Claude Desktop)
+ */
+async function startStdio() {
     const server = createMcpServer();
     const transport = new StdioServerTransport();
     await server.connect(transport);
 
-    console.error('cBioPortal Navigator running on stdio');
-    console.error(
-        `Base URL: ${process.env.CBIOPORTAL_BASE_URL || 'https://www.cbioportal.org'}`
-    );
+    logger.info('cBioPortal Navigator running on stdio');
+    logPortals();
 
     // Handle cleanup
     process.on('SIGINT', async () => {
@@ -43,15 +260,34 @@ async function startStdio() {
  * Start server in HTTP mode (for LibreChat and other remote clients)
  */
 async function startHttp() {
-    // Configure base URL from environment
-    if (process.env.CBIOPORTAL_BASE_URL) {
-        setConfig({
-            baseUrl: process.env.CBIOPORTAL_BASE_URL,
-        });
+    const app = express();
+    app.use(trackHttpRequests);
+    const security = getHttpSecurityConfig();
+    if (process.env.MCP_TRUST_PROXY) {
+        // Take client IPs from X-Forwarded-For, e.g. behind a load balancer
+        app.set('trust proxy', process.env.MCP_TRUST_PROXY);
     }
 
-    const app = express();
-    app.use(express.json());
+    // Everything under /mcp is authenticated and limited before the body is read
+    app.use(
+        '/mcp',
+        cors(security.allowedOrigins),
+        requireApiKey(security.apiKeys),
+        rateLimit(security.requestsPerMinute, security.maxConcurrentRequests),
+        requestTimeout(security.requestTimeoutMs),
+        express.json({ limit: security.maxBodySize })
+    );
+
+    // Optional stateful mode: sessions with SSE streams and DELETE
+    const sessions =
+        process.env.MCP_SESSION_MODE === 'stateful'
+            ? new McpSessionManager(createMcpServer, {
+                  maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || '100'),
+                  idleMinutes: parseInt(
+                      process.env.MCP_SESSION_IDLE_MINUTES || '30'
+                  ),
+              })
+            : null;
 
     // Health check endpoint
     app.get('/health', (req, res) => {
@@ -59,14 +295,35 @@ async function startHttp() {
             status: 'ok',
             service: 'cbioportal-navigator',
             version: '1.0.0',
-            baseUrl:
-                process.env.CBIOPORTAL_BASE_URL || 'https://www.cbioportal.org',
+            sessionMode: sessions ? 'stateful' : 'stateless',
+            activeSessions: sessions?.size(),
+            baseUrl: getDefaultPortal().baseUrl,
+            portals: getPortals().map((p) => ({
+                name: p.name,
+                baseUrl: p.baseUrl,
+            })),
         });
     });
 
+    // Prometheus metrics
+    app.get('/metrics', (req, res) => {
+        res.set('Content-Type', METRICS_CONTENT_TYPE).send(renderMetrics());
+    });
+
+    if (process.env.CBIOPORTAL_ADMIN_TOKEN) {
+        app.use('/admin', createAdminRouter());
+    }
+
     // MCP endpoint with Streamable HTTP transport
     app.post('/mcp', async (req, res) => {
         try {
+            if (sessions) {
+                await inRequestContext(req, res, () =>
+                    sessions.handlePost(req, res)
+                );
+                return;
+            }
+
             // Create new server and transport for each request (stateless mode)
             const server = createMcpServer();
             const transport = new StreamableHTTPServerTransport({
@@ -81,31 +338,77 @@ async function startHttp() {
 
             // Connect and handle request
             await server.connect(transport);
-            await transport.handleRequest(req, res, req.body);
+            await inRequestContext(req, res, () =>
+                transport.handleRequest(req, res, req.body)
+            );
         } catch (error) {
-            console.error('Error handling MCP request:', error);
-            if (!res.headersSent) {
-                res.status(500).json({
-                    jsonrpc: '2.0',
-                    error: {
-                        code: -32603,
-                        message: 'Internal server error',
-                    },
-                    id: null,
-                });
-            }
+            logger.error('Error handling MCP request', {
+                requestId: res.locals.requestId,
+                error,
+            });
+            sendInternalError(res);
         }
     });
 
+    // SSE stream (GET) and session termination (DELETE), stateful mode only
+    const handleSessionRequest = async (
+        req: express.Request,
+        res: express.Response
+    ) => {
+        if (!sessions) {
+            res.set('Allow', 'POST');
+            sendJsonRpcError(
+                res,
+                405,
+                JSON_RPC_SERVER_ERROR,
+                'Method not allowed (set MCP_SESSION_MODE=stateful for sessions)'
+            );
+            return;
+        }
+
+        try {
+            await inRequestContext(req, res, () =>
+                sessions.handleSessionRequest(req, res)
+            );
+        } catch (error) {
+            logger.error('Error handling MCP session request', {
+                requestId: res.locals.requestId,
+                error,
+            });
+            sendInternalError(res);
+        }
+    };
+    app.get('/mcp', handleSessionRequest);
+    app.delete('/mcp', handleSessionRequest);
+
+    app.use(jsonRpcBodyErrors);
+
     const port = parseInt(process.env.PORT || '8002');
     app.listen(port, () => {
-        console.log(`cBioPortal Navigator HTTP server running`);
-        console.log(`MCP endpoint: http://localhost:${port}/mcp`);
-        console.log(`Health check: http://localhost:${port}/health`);
-        console.log(
-            `Base URL: ${process.env.CBIOPORTAL_BASE_URL || 'https://www.cbioportal.org'}`
-        );
+        logger.info('cBioPortal Navigator HTTP server running', {
+            mcpEndpoint: `http://localhost:${port}/mcp`,
+            healthCheck: `http://localhost:${port}/health`,
+            metrics: `http://localhost:${port}/metrics`,
+            cacheAdmin: process.env.CBIOPORTAL_ADMIN_TOKEN
+                ? `http://localhost:${port}/admin/cache`
+                : undefined,
+            sessionMode: sessions ? 'stateful' : 'stateless',
+        });
+        if (security.apiKeys.size === 0) {
+            logger.warn(
+                'MCP_API_KEYS is not set, so /mcp accepts unauthenticated requests'
+            );
+        }
+        logPortals();
     });
+
+    // Close open sessions on shutdown
+    const shutdown = async () => {
+        await sessions?.closeAll();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
 }
 
 /**
@@ -114,16 +417,18 @@ async function startHttp() {
 async function main() {
     const mode = process.env.MCP_TRANSPORT || 'stdio';
 
+    warmUpCaches();
+
     if (mode === 'http') {
-        console.log('Starting in HTTP mode (Streamable HTTP transport)');
+        logger.info('Starting in HTTP mode (Streamable HTTP transport)');
         await startHttp();
     } else {
-        console.error('Starting in stdio mode (for Claude Desktop)');
+        logger.info('Starting in stdio mode (for Claude Desktop)');
         await startStdio();
     }
 }
 
 main().catch((error) => {
-    console.error('Fatal error:', error);
+    logger.error('Fatal error', { error });
     process.exit(1);
 });
@@ -0,0 +1,112 @@
+/**
+ * Structured logging
+ * One JSON object per line on stderr (stdout carries the stdio transport),
+ * tagged with the ID of the request being handled
+ *
+ * LOG_LEVEL: debug, info (default), warn or error
+ * LOG_FORMAT: json (default) or text, for reading logs in a terminal
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+};
+
+const requestIds = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn as part of a request; everything it logs carries the request ID
+ */
+export function runWithRequestId<R>(requestId: string, fn: () => R): R {
+    return requestIds.run(requestId, fn);
+}
+
+export function getRequestId(): string | undefined {
+    return requestIds.getStore();
+}
+
+/**
+ * Make errors JSON-serializable
+ */
+function serialize(value: unknown): unknown {
+    if (value instanceof Error) {
+        return {
+            name: value.name,
+            message: value.message,
+            stack: value.stack,
+        };
+    }
+    return value;
+}
+
+export class Logger {
+    private fields: LogFields;
+
+    constructor(fields: LogFields = {}) {
+        this.fields = fields;
+    }
+
+    /**
+     * Logger that adds fields to every entry, e.g. { component: 'cache' }
+     */
+    child(fields: LogFields): Logger {
+        return new Logger({ ...this.fields, ...fields });
+    }
+
+    debug(message: string, fields?: LogFields) {
+        this.write('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields) {
+        this.write('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields) {
+        this.write('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields) {
+        this.write('error', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: LogFields = {}) {
+        const minLevel = (process.env.LOG_LEVEL as LogLevel) || 'info';
+        if (LEVELS[level] < (LEVELS[minLevel] ?? LEVELS.info)) {
+            return;
+        }
+
+        const entry: LogFields = {
+            time: new Date().toISOString(),
+            level,
+            msg: message,
+            requestId: getRequestId(),
+            ...this.fields,
+        };
+        for (const [key, value] of Object.entries(fields)) {
+            entry[key] = serialize(value);
+        }
+
+        if (process.env.LOG_FORMAT === 'text') {
+            const { time, level, msg, ...rest } = entry;
+            const details = Object.entries(rest)
+                .filter(([, value]) => value !== undefined)
+                .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+                .join(' ');
+            process.stderr.write(
+                `${time} ${String(level).toUpperCase()} ${msg}${details ? ` ${details}` : ''}\n`
+            );
+            return;
+        }
+        process.stderr.write(JSON.stringify(entry) + '\n');
+    }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,277 @@
+/**
+ * Prometheus metrics, served at /metrics in HTTP mode
+ * A small in-process registry that renders the Prometheus text format
+ */
+
+import { caches, type CacheStats } from '../api/cache.js';
+import { getCircuitStates } from '../api/resilience.js';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+    labels: Labels;
+    value: number;
+}
+
+interface Metric {
+    render(): string[];
+}
+
+const PREFIX = 'cbioportal_navigator_';
+
+// Seconds; tool calls and upstream requests range from cached lookups to
+// slow multi-study queries
+const DEFAULT_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabelValue(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/\n/g, '\\n')
+        .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(
+        ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort());
+}
+
+function header(name: string, help: string, type: string): string[] {
+    return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+    private values: Map<string, Sample> = new Map();
+
+    constructor(
+        readonly name: string,
+        private help: string
+    ) {}
+
+    inc(labels: Labels = {}, value: number = 1) {
+        const key = labelKey(labels);
+        const sample = this.values.get(key);
+        if (sample) {
+            sample.value += value;
+        } else {
+            this.values.set(key, { labels, value });
+        }
+    }
+
+    render(): string[] {
+        return [
+            ...header(this.name, this.help, 'counter'),
+            ...[...this.values.values()].map(
+                (s) => `${this.name}${formatLabels(s.labels)} ${s.value}`
+            ),
+        ];
+    }
+}
+
+interface HistogramSeries {
+    labels: Labels;
+    // Cumulative counts per bucket upper bound
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+export class Histogram implements Metric {
+    private series: Map<string, HistogramSeries> = new Map();
+
+    constructor(
+        readonly name: string,
+        private help: string,
+        private bounds: number[] = DEFAULT_BUCKETS
+    ) {}
+
+    observe(labels: Labels, value: number) {
+        const key = labelKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = {
+                labels,
+                buckets: this.bounds.map(() => 0),
+                sum: 0,
+                count: 0,
+            };
+            this.series.set(key, series);
+        }
+
+        this.bounds.forEach((bound, i) => {
+            if (value <= bound) {
+                series.buckets[i]++;
+            }
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    /**
+     * Start a timer; call the returned function to record the elapsed seconds
+     */
+    startTimer(labels: Labels): () => void {
+        const start = process.hrtime.bigint();
+        return () =>
+            this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+
+    render(): string[] {
+        const lines = header(this.name, this.help, 'histogram');
+        for (const s of this.series.values()) {
+            this.bounds.forEach((bound, i) => {
+                lines.push(
+                    `${this.name}_bucket${formatLabels({ ...s.labels, le: String(bound) })} ${s.buckets[i]}`
+                );
+            });
+            lines.push(
+                `${this.name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+                `${this.name}_sum${formatLabels(s.labels)} ${s.sum}`,
+                `${this.name}_count${formatLabels(s.labels)} ${s.count}`
+            );
+        }
+        return lines;
+    }
+}
+
+/**
+ * Metric whose samples are read when scraped, e.g. from cache stats
+ */
+class CollectedMetric implements Metric {
+    constructor(
+        readonly name: string,
+        private help: string,
+        private type: 'counter' | 'gauge',
+        private collect: () => Sample[]
+    ) {}
+
+    render(): string[] {
+        return [
+            ...header(this.name, this.help, this.type),
+            ...this.collect().map(
+                (s) => `${this.name}${formatLabels(s.labels)} ${s.value}`
+            ),
+        ];
+    }
+}
+
+// Tool calls
+export const toolCalls = new Counter(
+    `${PREFIX}tool_calls_total`,
+    'MCP tool calls by tool, target page and outcome (success, needsSelection, error)'
+);
+export const toolCallDuration = new Histogram(
+    `${PREFIX}tool_call_duration_seconds`,
+    'MCP tool call duration in seconds'
+);
+
+// Upstream cBioPortal API
+export const upstreamRequests = new Counter(
+    `${PREFIX}upstream_requests_total`,
+    'cBioPortal API calls by client method, portal and outcome (success, not_found, client_error, unavailable, aborted, error)'
+);
+export const upstreamRetries = new Counter(
+    `${PREFIX}upstream_retries_total`,
+    'cBioPortal API calls retried after a timeout, network error or 5xx response'
+);
+export const upstreamDuration = new Histogram(
+    `${PREFIX}upstream_request_duration_seconds`,
+    'cBioPortal API call duration in seconds by client method and portal'
+);
+
+// HTTP transport
+export const httpRequests = new Counter(
+    `${PREFIX}http_requests_total`,
+    'HTTP requests by method, path and status'
+);
+
+function cacheSamples(read: (stats: CacheStats) => number): Sample[] {
+    return Object.values(caches).map((cache) => {
+        const stats = cache.getStats();
+        return { labels: { cache: stats.name }, value: read(stats) };
+    });
+}
+
+const metrics: Metric[] = [
+    toolCalls,
+    toolCallDuration,
+    upstreamRequests,
+    upstreamDuration,
+    upstreamRetries,
+    new CollectedMetric(
+        `${PREFIX}upstream_circuit_open`,
+        'Whether calls to a portal are failing fast after repeated failures (1) or not (0)',
+        'gauge',
+        () =>
+            getCircuitStates().map(({ portal, state }) => ({
+                labels: { portal },
+                value: state === 'open' ? 1 : 0,
+            }))
+    ),
+    httpRequests,
+    new CollectedMetric(
+        `${PREFIX}cache_requests_total`,
+        'Cache lookups by result (hit, stale, miss)',
+        'counter',
+        () =>
+            Object.values(caches).flatMap((cache) => {
+                const stats = cache.getStats();
+                return [
+                    {
+                        labels: { cache: stats.name, result: 'hit' },
+                        value: stats.hits,
+                    },
+                    {
+                        labels: { cache: stats.name, result: 'stale' },
+                        value: stats.staleHits,
+                    },
+                    {
+                        labels: { cache: stats.name, result: 'miss' },
+                        value: stats.misses,
+                    },
+                ];
+            })
+    ),
+    new CollectedMetric(
+        `${PREFIX}cache_hit_ratio`,
+        'Share of cache lookups answered from the cache, fresh or stale',
+        'gauge',
+        () =>
+            cacheSamples((s) => {
+                const total = s.hits + s.staleHits + s.misses;
+                return total > 0 ? (s.hits + s.staleHits) / total : 0;
+            })
+    ),
+    new CollectedMetric(
+        `${PREFIX}cache_evictions_total`,
+        'Entries evicted to stay within cache limits',
+        'counter',
+        () => cacheSamples((s) => s.evictions)
+    ),
+    new CollectedMetric(
+        `${PREFIX}cache_entries`,
+        'Entries currently cached',
+        'gauge',
+        () => cacheSamples((s) => s.entries)
+    ),
+    new CollectedMetric(
+        `${PREFIX}cache_bytes`,
+        'Approximate size of cached values in bytes',
+        'gauge',
+        () => cacheSamples((s) => s.bytes)
+    ),
+];
+
+/**
+ * All metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+    return metrics.flatMap((m) => m.render()).join('\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
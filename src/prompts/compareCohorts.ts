@@ -0,0 +1,64 @@
+/**
+ * MCP Prompt: compare_cohorts
+ * Walks the model through a Group Comparison between two cohorts
+ */
+
+import { z } from 'zod';
+
+/**
+ * Prompt definition for MCP registration
+ */
+export const compareCohortsPrompt = {
+    name: 'compare_cohorts',
+    title: 'Compare two cohorts',
+    description:
+        'Compare two groups of samples (e.g., MSI-high vs MSS) in Group Comparison',
+    argsSchema: {
+        cancerType: z
+            .string()
+            .describe('Cancer type or study keywords (e.g., "colorectal")'),
+        groupA: z
+            .string()
+            .describe('First group in plain words (e.g., "MSI-high")'),
+        groupB: z
+            .string()
+            .describe('Second group in plain words (e.g., "MSS")'),
+    },
+};
+
+type PromptArgs = {
+    cancerType: string;
+    groupA: string;
+    groupB: string;
+};
+
+/**
+ * Build the prompt messages
+ */
+export function buildCompareCohortsPrompt(args: PromptArgs) {
+    return {
+        messages: [
+            {
+                role: 'user' as const,
+                content: {
+                    type: 'text' as const,
+                    text: `Compare two cohorts in cBioPortal.
+
+- Cancer type: ${args.cancerType}
+- Group A: ${args.groupA}
+- Group B: ${args.groupB}
+
+Steps:
+1. Call search_studies with keywords for the cancer type and pick a study (prefer PanCancer Atlas studies). Ask me if several fit equally well.
+2. Work out what defines each group:
+   - A clinical value (e.g. MSI status, smoking history): call list_clinical_attributes with a search term to find the attribute, then use its values.
+   - A gene alteration (e.g. "KRAS mutant"): use a genes criterion.
+   - A whole study (e.g. "LUAD vs LUSC"): use one group per studyId without criteria.
+3. Call resolve_and_build_url with targetPage "comparison", the studyId and two groups named after my descriptions.
+4. If a clinical value is rejected, the error lists the available values; pick the matching one and retry.
+5. Reply with the Group Comparison link and the size of each group from the metadata.`,
+                },
+            },
+        ],
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * MCP Prompt: mutation_hotspot
+ * Walks the model through checking a specific mutation in a cancer type
+ */
+
+import { z } from 'zod';
+
+/**
+ * Prompt definition for MCP registration
+ */
+export const mutationHotspotPrompt = {
+    name: 'mutation_hotspot',
+    title: 'Check a mutation hotspot',
+    description:
+        'See how often a specific mutation (e.g., KRAS G12C) occurs in a cancer type',
+    argsSchema: {
+        gene: z.string().describe('Gene symbol (e.g., "KRAS")'),
+        mutation: z
+            .string()
+            .describe('Protein change or codon (e.g., "G12C" or "G12")'),
+        cancerType: z
+            .string()
+            .optional()
+            .describe(
+                'Cancer type or study keywords; omit to check across PanCancer Atlas studies'
+            ),
+    },
+};
+
+type PromptArgs = {
+    gene: string;
+    mutation: string;
+    cancerType?: string;
+};
+
+/**
+ * Build the prompt messages
+ */
+export function buildMutationHotspotPrompt(args: PromptArgs) {
+    const where = args.cancerType
+        ? `- Cancer type: ${args.cancerType}`
+        : '- Cancer type: any (use all TCGA PanCancer Atlas studies)';
+
+    return {
+        messages: [
+            {
+                role: 'user' as const,
+                content: {
+                    type: 'text' as const,
+                    text: `Check a mutation hotspot in cBioPortal.
+
+- Gene: ${args.gene}
+- Mutation: ${args.mutation}
+${where}
+
+Steps:
+1. Write an OQL query for the mutation: "${args.gene.toUpperCase()}: MUT=${args.mutation.toUpperCase()}". A codon without an amino acid (e.g. "G12") matches every change at that position.
+2. With a cancer type, turn it into study keywords. Without one, use the keywords ["TCGA", "PanCancer Atlas"] and set useAllMatches to query all of them at once.
+3. Call resolve_and_build_url with targetPage "results", the keywords, the OQL as "oql" and tab "mutations".
+4. If the response has needsSelection, show me the options and ask which one to use.
+5. Reply with the link, the studies it covers, and any warnings from the metadata.`,
+                },
+            },
+        ],
+    };
+}
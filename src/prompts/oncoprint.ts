@@ -0,0 +1,69 @@
+/**
+ * MCP Prompt: oncoprint
+ * Walks the model through building an OncoPrint for a gene list in a cancer type
+ */
+
+import { z } from 'zod';
+
+/**
+ * Prompt definition for MCP registration
+ */
+export const oncoprintPrompt = {
+    name: 'oncoprint',
+    title: 'OncoPrint for a gene list',
+    description:
+        'Show the alteration landscape of a set of genes in a cancer type',
+    argsSchema: {
+        genes: z
+            .string()
+            .describe(
+                'Genes to query, separated by spaces or commas (e.g., "TP53 KRAS EGFR")'
+            ),
+        cancerType: z
+            .string()
+            .describe(
+                'Cancer type or study keywords (e.g., "lung adenocarcinoma")'
+            ),
+        alterations: z
+            .string()
+            .optional()
+            .describe('Alteration types to include (e.g., "mutation, cna")'),
+    },
+};
+
+type PromptArgs = {
+    genes: string;
+    cancerType: string;
+    alterations?: string;
+};
+
+/**
+ * Build the prompt messages
+ */
+export function buildOncoprintPrompt(args: PromptArgs) {
+    const alterations = args.alterations
+        ? `\n- Alteration types: ${args.alterations}`
+        : '';
+
+    return {
+        messages: [
+            {
+                role: 'user' as const,
+                content: {
+                    type: 'text' as const,
+                    text: `Build a cBioPortal OncoPrint link.
+
+- Genes: ${args.genes}
+- Cancer type: ${args.cancerType}${alterations}
+
+Steps:
+1. Split the genes into a list of symbols. Keep aliases as given; resolve_and_build_url maps them to official symbols.
+2. Turn the cancer type into study keywords (e.g. "lung adenocarcinoma" → ["lung", "adenocarcinoma"]). If unsure which study is meant, call search_studies with those keywords and pick the best-ranked match, preferring PanCancer Atlas studies.
+3. Call resolve_and_build_url with targetPage "results", the study keywords (or studyId), the genes, tab "oncoprint" and, if given, the alteration types as "alterations".
+4. If the response has needsSelection, show me the options and ask which one to use. If it reports unresolved genes, show the suggestions.
+5. Reply with the link, the study it uses, and any gene substitutions or warnings from the metadata.`,
+                },
+            },
+        ],
+    };
+}
@@ -0,0 +1,60 @@
+/**
+ * MCP Prompt: patient_deep_dive
+ * Walks the model through opening and summarizing a patient
+ */
+
+import { z } from 'zod';
+
+/**
+ * Prompt definition for MCP registration
+ */
+export const patientDeepDivePrompt = {
+    name: 'patient_deep_dive',
+    title: 'Patient deep-dive',
+    description:
+        'Open a patient in Patient View and list their samples, optionally with a cohort to step through',
+    argsSchema: {
+        patientId: z
+            .string()
+            .describe(
+                'Patient or sample ID; partial barcodes are fine (e.g., "TCGA-05-4244")'
+            ),
+        study: z
+            .string()
+            .optional()
+            .describe('Study ID or keywords; omit to search all studies'),
+    },
+};
+
+type PromptArgs = {
+    patientId: string;
+    study?: string;
+};
+
+/**
+ * Build the prompt messages
+ */
+export function buildPatientDeepDivePrompt(args: PromptArgs) {
+    const study = args.study ? `\n- Study: ${args.study}` : '';
+
+    return {
+        messages: [
+            {
+                role: 'user' as const,
+                content: {
+                    type: 'text' as const,
+                    text: `Take me to a patient in cBioPortal.
+
+- Patient: ${args.patientId}${study}
+
+Steps:
+1. If a study is given, decide whether it is a study ID (lowercase with underscores, e.g. "luad_tcga") or keywords; otherwise leave it out so the patient is looked up across all studies.
+2. Call list_patient_samples with the patient ID (and studyId if known) to find the patient's study and samples.
+3. If several patients or studies match, show me the options and ask which one I mean.
+4. Call resolve_and_build_url with targetPage "patient", the resolved studyId and patientId.
+5. Reply with the Patient View link, the study, and the patient's samples. Offer to step through similar patients with a cohort (e.g. same case list or clinical criteria).`,
+                },
+            },
+        ],
+    };
+}
@@ -0,0 +1,250 @@
+/**
+ * Case List Resolver
+ * Handles sample list (case set) lookup, validation and default selection
+ */
+
+import { apiClient } from '../api/client.js';
+import { studyCache } from '../api/cache.js';
+import type { AlterationType } from './profileResolver.js';
+
+export interface ResolvedCaseList {
+    caseSetId: string;
+    name: string;
+    description?: string;
+    category?: string;
+    sampleCount?: number;
+}
+
+export type CaseListResolution =
+    | { caseList: ResolvedCaseList; note?: string }
+    | { ambiguous: ResolvedCaseList[] }
+    | { error: string; available: ResolvedCaseList[] };
+
+/**
+ * Data types guaranteed for every sample in a list, by list category
+ */
+const CATEGORY_COVERAGE: Record<string, AlterationType[]> = {
+    all_cases_in_study: [],
+    all_cases_with_mutation_data: ['mutation'],
+    all_cases_with_cna_data: ['cna'],
+    all_cases_with_mutation_and_cna_data: ['mutation', 'cna'],
+    all_cases_with_mutation_and_cna_and_mrna_data: ['mutation', 'cna', 'mrna'],
+    all_cases_with_mrna_rnaseq_data: ['mrna'],
+    all_cases_with_mrna_array_data: ['mrna'],
+    all_cases_with_rppa_data: ['protein'],
+    all_cases_with_methylation_data: ['methylation'],
+    all_cases_with_sv_data: ['fusion'],
+};
+
+/**
+ * Same coverage by conventional ID suffix, for lists without a category
+ */
+const SUFFIX_COVERAGE: Record<string, AlterationType[]> = {
+    all: [],
+    sequenced: ['mutation'],
+    cna: ['cna'],
+    cnaseq: ['mutation', 'cna'],
+    '3way_complete': ['mutation', 'cna', 'mrna'],
+    rna_seq_v2_mrna: ['mrna'],
+    rna_seq_mrna: ['mrna'],
+    mrna: ['mrna'],
+    rppa: ['protein'],
+    methylation_hm450: ['methylation'],
+    methylation_hm27: ['methylation'],
+    sv: ['fusion'],
+};
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export class CaseListResolver {
+    /**
+     * Get all case lists for a study
+     */
+    async getAllForStudy(studyId: string): Promise<ResolvedCaseList[]> {
+        const cacheKey = `caseLists:${studyId}`;
+        return await studyCache.getOrLoad(cacheKey, async () => {
+            const sampleLists = await apiClient.getCaseLists(studyId);
+            return sampleLists.map((l) => ({
+                caseSetId: l.sampleListId,
+                name: l.name,
+                description: l.description,
+                category: l.category,
+                sampleCount: l.sampleCount,
+            }));
+        });
+    }
+
+    /**
+     * Get the sample IDs in a case list
+     */
+    async getSampleIds(caseSetId: string): Promise<string[]> {
+        const cacheKey = `caseListSamples:${caseSetId}`;
+        return await studyCache.getOrLoad(cacheKey, () =>
+            apiClient.getSampleIdsInCaseList(caseSetId)
+        );
+    }
+
+    /**
+     * Resolve a requested case list, or pick the best default for the
+     * requested alteration types when none is given
+     */
+    async resolve(
+        studyId: string,
+        requested: string | undefined,
+        alterationTypes: AlterationType[] = []
+    ): Promise<CaseListResolution> {
+        const caseLists = await this.getAllForStudy(studyId);
+
+        if (caseLists.length === 0) {
+            return {
+                error: `Study "${studyId}" has no case lists`,
+                available: [],
+            };
+        }
+
+        return requested
+            ? this.match(studyId, requested, caseLists)
+            : this.pickDefault(studyId, caseLists, alterationTypes);
+    }
+
+    /**
+     * Match a user-supplied case list by ID, suffix or name
+     */
+    private match(
+        studyId: string,
+        requested: string,
+        caseLists: ResolvedCaseList[]
+    ): CaseListResolution {
+        const exact = caseLists.find(
+            (c) =>
+                c.caseSetId === requested ||
+                c.caseSetId === `${studyId}_${requested}`
+        );
+        if (exact) {
+            return { caseList: exact };
+        }
+
+        const needle = normalize(requested.replace(`${studyId}_`, ''));
+        const keys = (c: ResolvedCaseList) => [
+            normalize(this.getSuffix(studyId, c.caseSetId)),
+            normalize(c.name || ''),
+        ];
+
+        // Case-insensitive equality on suffix or name
+        const equal = caseLists.filter((c) => keys(c).includes(needle));
+        if (equal.length === 1) {
+            return {
+                caseList: equal[0],
+                note: `Case list "${requested}" matched "${equal[0].caseSetId}"`,
+            };
+        }
+
+        // Partial matches in either direction
+        const partial =
+            equal.length > 1
+                ? equal
+                : caseLists.filter((c) =>
+                      keys(c).some(
+                          (k) =>
+                              k.length > 0 &&
+                              (k.includes(needle) || needle.includes(k))
+                      )
+                  );
+
+        if (partial.length === 1) {
+            return {
+                caseList: partial[0],
+                note: `Case list "${requested}" matched "${partial[0].caseSetId}"`,
+            };
+        }
+        if (partial.length > 1) {
+            return { ambiguous: partial };
+        }
+
+        return {
+            error: `Case list "${requested}" not found in study "${studyId}"`,
+            available: caseLists,
+        };
+    }
+
+    /**
+     * Pick the smallest standard list covering every requested data type,
+     * falling back to all samples in the study
+     */
+    private pickDefault(
+        studyId: string,
+        caseLists: ResolvedCaseList[],
+        alterationTypes: AlterationType[]
+    ): CaseListResolution {
+        const allList =
+            caseLists.find((c) => c.category === 'all_cases_in_study') ||
+            caseLists.find((c) => c.caseSetId === `${studyId}_all`);
+
+        if (alterationTypes.length > 0) {
+            const covering = caseLists
+                .map((c) => ({
+                    caseList: c,
+                    coverage: this.getCoverage(studyId, c),
+                }))
+                .filter(
+                    ({ coverage }) =>
+                        coverage !== null &&
+                        alterationTypes.every((t) => coverage.includes(t))
+                )
+                // Tightest coverage first, then the larger cohort
+                .sort(
+                    (a, b) =>
+                        a.coverage.length - b.coverage.length ||
+                        (b.caseList.sampleCount || 0) -
+                            (a.caseList.sampleCount || 0)
+                );
+
+            if (covering.length > 0) {
+                return { caseList: covering[0].caseList };
+            }
+
+            if (allList) {
+                return {
+                    caseList: allList,
+                    note: `No case list in "${studyId}" covers ${alterationTypes.join(' + ')} data; using all samples`,
+                };
+            }
+        }
+
+        if (allList) {
+            return { caseList: allList };
+        }
+
+        if (caseLists.length === 1) {
+            return { caseList: caseLists[0] };
+        }
+
+        return { ambiguous: caseLists };
+    }
+
+    /**
+     * Data types covered by a list, or null if it isn't a standard list
+     */
+    private getCoverage(
+        studyId: string,
+        caseList: ResolvedCaseList
+    ): AlterationType[] | null {
+        if (caseList.category && CATEGORY_COVERAGE[caseList.category]) {
+            return CATEGORY_COVERAGE[caseList.category];
+        }
+        return (
+            SUFFIX_COVERAGE[this.getSuffix(studyId, caseList.caseSetId)] || null
+        );
+    }
+
+    private getSuffix(studyId: string, caseSetId: string): string {
+        const prefix = `${studyId}_`;
+        return caseSetId.startsWith(prefix)
+            ? caseSetId.slice(prefix.length)
+            : caseSetId;
+    }
+}
+
+export const caseListResolver = new CaseListResolver();
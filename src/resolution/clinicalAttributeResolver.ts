@@ -0,0 +1,97 @@
+/**
+ * Clinical Attribute Resolver
+ * Handles clinical attribute lookup and value listing for studies
+ */
+
+import { apiClient } from '../api/client.js';
+import { clinicalCache } from '../api/cache.js';
+
+export interface ResolvedClinicalAttribute {
+    clinicalAttributeId: string;
+    displayName: string;
+    description?: string;
+    datatype: 'STRING' | 'NUMBER' | string;
+    patientAttribute: boolean;
+}
+
+export interface ClinicalValue {
+    patientId: string;
+    sampleId?: string;
+    value: string;
+}
+
+export class ClinicalAttributeResolver {
+    /**
+     * Get all clinical attributes for a study
+     */
+    async getAllForStudy(
+        studyId: string
+    ): Promise<ResolvedClinicalAttribute[]> {
+        const cacheKey = `attributes:${studyId}`;
+        return await clinicalCache.getOrLoad(cacheKey, async () => {
+            const attributes = await apiClient.getClinicalAttributes(studyId);
+            return attributes.map((a) => ({
+                clinicalAttributeId: a.clinicalAttributeId,
+                displayName: a.displayName,
+                description: a.description,
+                datatype: a.datatype,
+                patientAttribute: a.patientAttribute,
+            }));
+        });
+    }
+
+    /**
+     * Find an attribute by ID or display name (case-insensitive)
+     */
+    async find(
+        studyId: string,
+        attribute: string
+    ): Promise<ResolvedClinicalAttribute | null> {
+        const attributes = await this.getAllForStudy(studyId);
+        const needle = attribute.trim().toLowerCase();
+
+        return (
+            attributes.find(
+                (a) => a.clinicalAttributeId.toLowerCase() === needle
+            ) ||
+            attributes.find((a) => a.displayName?.toLowerCase() === needle) ||
+            null
+        );
+    }
+
+    /**
+     * Get every recorded value of an attribute in a study
+     * Patient attributes have no sampleId
+     */
+    async getData(
+        studyId: string,
+        attribute: ResolvedClinicalAttribute
+    ): Promise<ClinicalValue[]> {
+        const cacheKey = `data:${studyId}:${attribute.clinicalAttributeId}`;
+        return await clinicalCache.getOrLoad(cacheKey, async () => {
+            const data = await apiClient.getClinicalDataForAttribute(
+                studyId,
+                attribute.clinicalAttributeId,
+                attribute.patientAttribute ? 'PATIENT' : 'SAMPLE'
+            );
+            return data.map((d) => ({
+                patientId: d.patientId,
+                sampleId: d.sampleId,
+                value: d.value,
+            }));
+        });
+    }
+
+    /**
+     * Get the distinct values recorded for an attribute in a study
+     */
+    async getDistinctValues(
+        studyId: string,
+        attribute: ResolvedClinicalAttribute
+    ): Promise<string[]> {
+        const data = await this.getData(studyId, attribute);
+        return Array.from(new Set<string>(data.map((d) => d.value))).sort();
+    }
+}
+
+export const clinicalAttributeResolver = new ClinicalAttributeResolver();
@@ -0,0 +1,148 @@
+/**
+ * Cohort Resolver
+ * Turns an explicit patient list, a case list or clinical/gene criteria into
+ * the ordered list of patients to step through in Patient View
+ */
+
+import { patientResolver } from './patientResolver.js';
+import {
+    studyFilterResolver,
+    type StudyFilterInput,
+} from './studyFilterResolver.js';
+import { isEmptyStudyViewFilter } from '../urlBuilders/study.js';
+
+/**
+ * User-facing cohort model accepted by the tool
+ * All given criteria must hold for at least one sample of the patient
+ */
+export interface CohortInput {
+    patientIds?: string[];
+    caseList?: string;
+    clinical?: StudyFilterInput['clinical'];
+    genes?: StudyFilterInput['genes'];
+}
+
+export interface CohortResolution {
+    // Explicit patients keep their input order, otherwise the study's order
+    patientIds: string[];
+    applied: string[];
+    errors: string[];
+}
+
+export class CohortResolver {
+    /**
+     * Resolve a cohort within a study
+     * Collects every problem instead of stopping at the first one
+     */
+    async resolve(
+        studyId: string,
+        input: CohortInput
+    ): Promise<CohortResolution> {
+        const applied: string[] = [];
+        const errors: string[] = [];
+
+        const studyPatientIds =
+            await patientResolver.getPatientsInStudy(studyId);
+        const samples = await patientResolver.getSamplesInStudy(studyId);
+        const patientOfSample = new Map(
+            samples.map((s) => [s.sampleId, s.patientId])
+        );
+
+        let patientIds = studyPatientIds;
+
+        if (input.patientIds?.length) {
+            const explicit = this.resolveExplicit(
+                studyId,
+                input.patientIds,
+                studyPatientIds,
+                patientOfSample
+            );
+            errors.push(...explicit.errors);
+            patientIds = explicit.patientIds;
+            applied.push(`${explicit.patientIds.length} selected patients`);
+        }
+
+        // Case lists, clinical and gene criteria are validated the same way as Study View filters
+        const filterInput: StudyFilterInput = {
+            clinical: input.clinical,
+            genes: input.genes,
+            caseLists: input.caseList ? [input.caseList] : undefined,
+        };
+        const resolution = await studyFilterResolver.resolve(
+            studyId,
+            filterInput
+        );
+        errors.push(...resolution.errors);
+
+        if (errors.length > 0) {
+            return { patientIds: [], applied, errors };
+        }
+        applied.push(...resolution.applied);
+
+        const { filter } = resolution;
+        if (!isEmptyStudyViewFilter(filter)) {
+            const sampleIds = await studyFilterResolver.getMatchingSampleIds(
+                studyId,
+                filter
+            );
+            const matching = new Set(
+                sampleIds.map((id) => patientOfSample.get(id))
+            );
+            patientIds = patientIds.filter((id) => matching.has(id));
+        }
+
+        if (patientIds.length === 0) {
+            errors.push(`No patients in study "${studyId}" match the cohort`);
+        }
+
+        return { patientIds, applied, errors };
+    }
+
+    /**
+     * Match explicit patient IDs against the study
+     * Sample IDs are accepted and mapped to their patient
+     */
+    private resolveExplicit(
+        studyId: string,
+        requested: string[],
+        studyPatientIds: string[],
+        patientOfSample: Map<string, string>
+    ): { patientIds: string[]; errors: string[] } {
+        const byUpperCase = new Map(
+            studyPatientIds.map((id) => [id.toUpperCase(), id])
+        );
+        const sampleByUpperCase = new Map(
+            Array.from(patientOfSample.keys()).map((id) => [
+                id.toUpperCase(),
+                id,
+            ])
+        );
+
+        const patientIds: string[] = [];
+        const unknown: string[] = [];
+        for (const id of requested) {
+            const key = id.trim().toUpperCase();
+            const sampleId = sampleByUpperCase.get(key);
+            const patientId =
+                byUpperCase.get(key) ||
+                (sampleId ? patientOfSample.get(sampleId) : undefined);
+            if (!patientId) {
+                unknown.push(id);
+            } else if (!patientIds.includes(patientId)) {
+                patientIds.push(patientId);
+            }
+        }
+
+        return {
+            patientIds,
+            errors:
+                unknown.length > 0
+                    ? [
+                          `Patients not found in study "${studyId}": ${unknown.join(', ')}`,
+                      ]
+                    : [],
+        };
+    }
+}
+
+export const cohortResolver = new CohortResolver();
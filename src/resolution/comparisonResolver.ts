@@ -0,0 +1,155 @@
+/**
+ * Comparison Resolver
+ * Validates Group Comparison group definitions and resolves them to samples
+ */
+
+import { apiClient } from '../api/client.js';
+import { patientResolver } from './patientResolver.js';
+import {
+    studyFilterResolver,
+    type StudyFilterInput,
+} from './studyFilterResolver.js';
+import { studyResolver } from './studyResolver.js';
+import {
+    buildComparisonSession,
+    type ComparisonGroup,
+} from '../urlBuilders/comparison.js';
+
+/**
+ * User-facing group model accepted by the tool
+ * A group without criteria holds the whole study
+ */
+export interface ComparisonGroupInput {
+    name?: string;
+    studyId?: string;
+    clinical?: StudyFilterInput['clinical'];
+    genes?: StudyFilterInput['genes'];
+    caseList?: string;
+    sampleIds?: string[];
+}
+
+export interface ResolvedComparisonGroup {
+    group: ComparisonGroup;
+    studyId: string;
+    sampleCount: number;
+    patientCount: number;
+    applied: string[];
+}
+
+export interface ComparisonResolution {
+    groups: ResolvedComparisonGroup[];
+    errors: string[];
+}
+
+export class ComparisonResolver {
+    /**
+     * Resolve every group, falling back to the default study for groups without one
+     * Collects every problem instead of stopping at the first one
+     */
+    async resolve(
+        inputs: ComparisonGroupInput[],
+        defaultStudyId?: string
+    ): Promise<ComparisonResolution> {
+        const groups: ResolvedComparisonGroup[] = [];
+        const errors: string[] = [];
+
+        for (const [i, input] of inputs.entries()) {
+            const label = `Group ${i + 1}${input.name ? ` ("${input.name}")` : ''}`;
+            const result = await this.resolveGroup(input, defaultStudyId);
+            if ('errors' in result) {
+                errors.push(...result.errors.map((e) => `${label}: ${e}`));
+            } else {
+                groups.push(result);
+            }
+        }
+
+        const names = groups.map((g) => g.group.name);
+        const duplicates = names.filter((n, i) => names.indexOf(n) !== i);
+        if (duplicates.length > 0) {
+            errors.push(
+                `Group names must be unique: ${Array.from(new Set(duplicates)).join(', ')}`
+            );
+        }
+
+        return { groups, errors };
+    }
+
+    /**
+     * Store the groups as a comparison session on the portal
+     */
+    async createSession(groups: ResolvedComparisonGroup[]): Promise<string> {
+        return await apiClient.createComparisonSession(
+            buildComparisonSession(groups.map((g) => g.group))
+        );
+    }
+
+    /**
+     * Resolve a single group to the samples it contains
+     */
+    private async resolveGroup(
+        input: ComparisonGroupInput,
+        defaultStudyId?: string
+    ): Promise<ResolvedComparisonGroup | { errors: string[] }> {
+        const studyId = input.studyId || defaultStudyId;
+        if (!studyId) {
+            return { errors: ['studyId is required'] };
+        }
+        if (!(await studyResolver.validate(studyId))) {
+            return { errors: [`Study ID "${studyId}" not found`] };
+        }
+
+        const resolution = await studyFilterResolver.resolve(studyId, {
+            clinical: input.clinical,
+            genes: input.genes,
+            caseLists: input.caseList ? [input.caseList] : undefined,
+            sampleIds: input.sampleIds,
+        });
+        if (resolution.errors.length > 0) {
+            return { errors: resolution.errors };
+        }
+
+        const sampleIds = await studyFilterResolver.getMatchingSampleIds(
+            studyId,
+            resolution.filter
+        );
+        if (sampleIds.length === 0) {
+            return { errors: [`No samples in study "${studyId}" match`] };
+        }
+
+        const samples = await patientResolver.getSamplesInStudy(studyId);
+        const selected = new Set(sampleIds);
+        const patientIds = Array.from(
+            new Set(
+                samples
+                    .filter((s) => selected.has(s.sampleId))
+                    .map((s) => s.patientId)
+            )
+        );
+
+        const applied =
+            resolution.applied.length > 0
+                ? resolution.applied
+                : [`all samples in ${studyId}`];
+
+        return {
+            group: {
+                name:
+                    input.name ||
+                    (resolution.applied.length > 0
+                        ? applied.join(', ')
+                        : studyId),
+                description: applied.join('; '),
+                studies: [
+                    { id: studyId, samples: sampleIds, patients: patientIds },
+                ],
+                origin: [studyId],
+            },
+            studyId,
+            sampleCount: sampleIds.length,
+            patientCount: patientIds.length,
+            applied,
+        };
+    }
+}
+
+export const comparisonResolver = new ComparisonResolver();
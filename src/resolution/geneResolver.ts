@@ -1,56 +1,247 @@
 /**
  * Gene Resolver
- * Handles gene symbol validation
+ * Handles gene symbol validation, alias resolution and typo suggestions
  */
 
 import { apiClient } from '../api/client.js';
 import { geneCache } from '../api/cache.js';
+import {
+    CbioportalNotFoundError,
+    CbioportalUnavailableError,
+} from '../api/errors.js';
+import { logger } from '../observability/logger.js';
+
+const log = logger.child({ component: 'geneResolver' });
+
+export interface GeneResolution {
+    input: string;
+    // Official HUGO symbol, set when the input could be resolved
+    symbol?: string;
+    matchType?: 'exact' | 'alias';
+    // Likely intended symbols, set when the input could not be resolved
+    suggestions?: string[];
+}
+
+export interface GeneBatchResolution {
+    resolutions: GeneResolution[];
+    symbols: string[];
+    substitutions: GeneResolution[];
+    unresolved: GeneResolution[];
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) =>
+            i === 0 ? j : j === 0 ? i : 0
+        )
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(
+                d[i - 1][j] + 1,
+                d[i][j - 1] + 1,
+                d[i - 1][j - 1] + cost
+            );
+            if (
+                i > 1 &&
+                j > 1 &&
+                a[i - 1] === b[j - 2] &&
+                a[i - 2] === b[j - 1]
+            ) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return d[a.length][b.length];
+}
 
 export class GeneResolver {
     /**
      * Validate if a gene symbol exists
      */
     async validate(geneSymbol: string): Promise<boolean> {
-        const normalizedSymbol = geneSymbol.toUpperCase();
+        return (await this.lookupSymbol(geneSymbol.toUpperCase())) !== null;
+    }
+
+    /**
+     * Validate multiple gene symbols
+     * Returns only the resolvable genes, as official symbols
+     */
+    async validateBatch(geneSymbols: string[]): Promise<string[]> {
+        const { symbols } = await this.resolveBatch(geneSymbols);
+        return symbols;
+    }
+
+    /**
+     * Resolve a user-supplied gene name to its official HUGO symbol
+     * Tries the symbol itself, then cBioPortal's alias table, then
+     * falls back to suggestions for likely typos
+     */
+    async resolve(geneSymbol: string): Promise<GeneResolution> {
+        const input = geneSymbol;
+        const normalized = geneSymbol.trim().toUpperCase();
+
+        const symbol = await this.lookupSymbol(normalized);
+        if (symbol) {
+            return { input, symbol, matchType: 'exact' };
+        }
+
+        // "PD-L1" is stored as an alias of CD274, but so is "PDL1"
+        const aliasCandidates = Array.from(
+            new Set([normalized, normalized.replace(/[\s\-_.]/g, '')])
+        );
+        for (const alias of aliasCandidates) {
+            const aliasMatches = await this.lookupAlias(alias);
+            if (aliasMatches.length === 1) {
+                return { input, symbol: aliasMatches[0], matchType: 'alias' };
+            }
+            if (aliasMatches.length > 1) {
+                return { input, suggestions: aliasMatches };
+            }
+        }
+
+        return { input, suggestions: await this.suggest(normalized) };
+    }
+
+    /**
+     * Resolve multiple gene names
+     * Official symbols are de-duplicated and keep the input order
+     */
+    async resolveBatch(geneSymbols: string[]): Promise<GeneBatchResolution> {
+        const resolutions = await Promise.all(
+            geneSymbols.map((gene) => this.resolve(gene))
+        );
+
+        const symbols: string[] = [];
+        const substitutions: GeneResolution[] = [];
+        const unresolved: GeneResolution[] = [];
+
+        for (const resolution of resolutions) {
+            if (!resolution.symbol) {
+                unresolved.push(resolution);
+                continue;
+            }
+            if (!symbols.includes(resolution.symbol)) {
+                symbols.push(resolution.symbol);
+            }
+            if (resolution.matchType === 'alias') {
+                substitutions.push(resolution);
+            }
+        }
 
-        // Check cache first
-        const cached = geneCache.get(normalizedSymbol);
+        return { resolutions, symbols, substitutions, unresolved };
+    }
+
+    /**
+     * Get gene details
+     */
+    async getGeneInfo(geneSymbol: string) {
+        const resolution = await this.resolve(geneSymbol);
+        if (!resolution.symbol) {
+            throw new Error(`Gene "${geneSymbol}" not found`);
+        }
+        return await apiClient.getGene(resolution.symbol);
+    }
+
+    /**
+     * Look up an exact gene symbol, returning its official spelling
+     */
+    private async lookupSymbol(normalized: string): Promise<string | null> {
+        const cacheKey = `symbol:${normalized}`;
+        const cached = geneCache.get(cacheKey);
         if (cached !== null) {
+            return cached || null;
+        }
+
+        try {
+            const gene = await apiClient.getGene(normalized);
+            geneCache.set(cacheKey, gene.hugoGeneSymbol);
+            return gene.hugoGeneSymbol;
+        } catch (error) {
+            // Only cache symbols the portal doesn't know, not failed lookups
+            if (!(error instanceof CbioportalNotFoundError)) {
+                throw error;
+            }
+            geneCache.set(cacheKey, false);
+            return null;
+        }
+    }
+
+    /**
+     * Look up the official symbols that list the given alias
+     */
+    private async lookupAlias(alias: string): Promise<string[]> {
+        const cacheKey = `alias:${alias}`;
+        const cached = geneCache.get(cacheKey);
+        if (cached) {
             return cached;
         }
 
         try {
-            await apiClient.getGene(normalizedSymbol);
-            geneCache.set(normalizedSymbol, true);
-            return true;
+            const genes = await apiClient.getGenesByAlias(alias);
+            const symbols = genes.map((g) => g.hugoGeneSymbol);
+            geneCache.set(cacheKey, symbols);
+            return symbols;
         } catch (error) {
-            geneCache.set(normalizedSymbol, false);
-            return false;
+            if (!(error instanceof CbioportalNotFoundError)) {
+                throw error;
+            }
+            return [];
         }
     }
 
     /**
-     * Validate multiple gene symbols
-     * Returns only the valid genes
+     * Suggest official symbols within a small edit distance of the input
      */
-    async validateBatch(geneSymbols: string[]): Promise<string[]> {
-        const results = await Promise.all(
-            geneSymbols.map(async (gene) => {
-                const normalized = gene.toUpperCase();
-                const isValid = await this.validate(normalized);
-                return isValid ? normalized : null;
-            })
-        );
+    private async suggest(normalized: string): Promise<string[]> {
+        const allSymbols = await this.getAllSymbols();
+        const maxDistance = normalized.length <= 4 ? 1 : 2;
 
-        return results.filter((g): g is string => g !== null);
+        return allSymbols
+            .filter(
+                (symbol) =>
+                    Math.abs(symbol.length - normalized.length) <= maxDistance
+            )
+            .map((symbol) => ({
+                symbol,
+                distance: editDistance(normalized, symbol.toUpperCase()),
+            }))
+            .filter(({ distance }) => distance <= maxDistance)
+            .sort(
+                (a, b) =>
+                    a.distance - b.distance || a.symbol.localeCompare(b.symbol)
+            )
+            .slice(0, MAX_SUGGESTIONS)
+            .map(({ symbol }) => symbol);
     }
 
     /**
-     * Get gene details
+     * Get every official gene symbol (used for typo suggestions)
      */
-    async getGeneInfo(geneSymbol: string) {
-        const normalized = geneSymbol.toUpperCase();
-        return await apiClient.getGene(normalized);
+    private async getAllSymbols(): Promise<string[]> {
+        const cacheKey = 'symbols:all';
+        try {
+            return await geneCache.getOrLoad(cacheKey, async () => {
+                const genes = await apiClient.getAllGenes();
+                return genes.map((g) => g.hugoGeneSymbol);
+            });
+        } catch (error) {
+            // Suggestions are optional, except that an unreachable portal
+            // shouldn't look like a gene with no near matches
+            if (error instanceof CbioportalUnavailableError) {
+                throw error;
+            }
+            log.error('Error fetching gene list', { error });
+            return [];
+        }
     }
 }
 
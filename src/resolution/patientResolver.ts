@@ -0,0 +1,243 @@
+/**
+ * Patient Resolver
+ * Handles patient and sample validation, partial ID matching and
+ * cross-study patient lookup
+ */
+
+import type { Patient, Sample } from 'cbioportal-ts-api-client';
+import { apiClient } from '../api/client.js';
+import { studyCache } from '../api/cache.js';
+
+export interface ResolvedCase {
+    studyId: string;
+    patientId: string;
+    // Set when a specific sample was requested
+    sampleId?: string;
+    // All samples of the patient
+    sampleIds: string[];
+}
+
+export type CaseResolution =
+    | { match: ResolvedCase; note?: string }
+    | { ambiguous: ResolvedCase[] }
+    | { error: string };
+
+export interface CaseQuery {
+    patientId?: string;
+    sampleId?: string;
+}
+
+export interface SampleRecord {
+    sampleId: string;
+    patientId: string;
+}
+
+const MAX_AMBIGUOUS_MATCHES = 20;
+
+/**
+ * How well a candidate ID matches the requested one
+ * 2 = exact (case-insensitive), 1 = one is a prefix of the other
+ * (e.g. patient "TCGA-05-4244" vs sample barcode "TCGA-05-4244-01"), 0 = no match
+ */
+function matchId(requested: string, candidate: string): number {
+    const a = requested.trim().toUpperCase();
+    const b = candidate.toUpperCase();
+    if (a === b) {
+        return 2;
+    }
+    if (b.startsWith(a) || a.startsWith(b)) {
+        return 1;
+    }
+    return 0;
+}
+
+/**
+ * Keep the best-matching candidates: exact matches if any, else partial ones
+ */
+function bestMatches<T>(
+    requested: string,
+    candidates: T[],
+    getId: (candidate: T) => string
+): T[] {
+    const scored = candidates
+        .map((c) => ({ candidate: c, score: matchId(requested, getId(c)) }))
+        .filter(({ score }) => score > 0);
+    const best = Math.max(0, ...scored.map(({ score }) => score));
+    return scored
+        .filter(({ score }) => score === best)
+        .map(({ candidate }) => candidate);
+}
+
+export class PatientResolver {
+    /**
+     * Get all patient IDs in a study
+     */
+    async getPatientsInStudy(studyId: string): Promise<string[]> {
+        const cacheKey = `patients:${studyId}`;
+        return await studyCache.getOrLoad(cacheKey, async () => {
+            const patients = await apiClient.getPatientsInStudy(studyId);
+            return patients.map((p) => p.patientId);
+        });
+    }
+
+    /**
+     * Get all samples in a study with their patient IDs
+     */
+    async getSamplesInStudy(studyId: string): Promise<SampleRecord[]> {
+        const cacheKey = `samples:${studyId}`;
+        return await studyCache.getOrLoad(cacheKey, async () => {
+            const samples = await apiClient.getSamplesInStudy(studyId);
+            return samples.map((s) => ({
+                sampleId: s.sampleId,
+                patientId: s.patientId,
+            }));
+        });
+    }
+
+    /**
+     * Resolve a patient or sample within a known study
+     */
+    async resolveInStudy(
+        studyId: string,
+        query: CaseQuery
+    ): Promise<CaseResolution> {
+        const samples = await this.getSamplesInStudy(studyId);
+        const sampleIdsOf = (patientId: string) =>
+            samples
+                .filter((s) => s.patientId === patientId)
+                .map((s) => s.sampleId);
+
+        if (query.sampleId) {
+            const matches = bestMatches(
+                query.sampleId,
+                samples,
+                (s) => s.sampleId
+            );
+            return this.toResolution(
+                query.sampleId,
+                'Sample',
+                studyId,
+                matches.map((s) => ({
+                    studyId,
+                    patientId: s.patientId,
+                    sampleId: s.sampleId,
+                    sampleIds: sampleIdsOf(s.patientId),
+                })),
+                (c) => c.sampleId
+            );
+        }
+
+        const patientIds = await this.getPatientsInStudy(studyId);
+        let matches = bestMatches(query.patientId, patientIds, (id) => id);
+
+        // The "patient" may actually be a sample barcode
+        if (matches.length === 0) {
+            const sampleMatches = bestMatches(
+                query.patientId,
+                samples,
+                (s) => s.sampleId
+            );
+            matches = Array.from(
+                new Set(sampleMatches.map((s) => s.patientId))
+            );
+        }
+
+        return this.toResolution(
+            query.patientId,
+            'Patient',
+            studyId,
+            matches.map((patientId) => ({
+                studyId,
+                patientId,
+                sampleIds: sampleIdsOf(patientId),
+            })),
+            (c) => c.patientId
+        );
+    }
+
+    /**
+     * Find which studies contain a patient or sample
+     */
+    async findAcrossStudies(query: CaseQuery): Promise<CaseResolution> {
+        const requested = query.sampleId || query.patientId;
+
+        let candidates: ResolvedCase[];
+        if (query.sampleId) {
+            const samples = await apiClient.searchSamples(query.sampleId);
+            candidates = bestMatches<Sample>(
+                query.sampleId,
+                samples,
+                (s) => s.sampleId
+            ).map((s) => ({
+                studyId: s.studyId,
+                patientId: s.patientId,
+                sampleId: s.sampleId,
+                sampleIds: [],
+            }));
+        } else {
+            const patients = await apiClient.searchPatients(query.patientId);
+            candidates = bestMatches<Patient>(
+                query.patientId,
+                patients,
+                (p) => p.patientId
+            ).map((p) => ({
+                studyId: p.studyId,
+                patientId: p.patientId,
+                sampleIds: [],
+            }));
+        }
+
+        const resolution = this.toResolution(
+            requested,
+            query.sampleId ? 'Sample' : 'Patient',
+            undefined,
+            candidates,
+            (c) => (query.sampleId ? c.sampleId : c.patientId)
+        );
+
+        // Fill in the samples of a unique match
+        if ('match' in resolution) {
+            const { studyId, patientId } = resolution.match;
+            const samples = await apiClient.getSamplesForPatient(
+                studyId,
+                patientId
+            );
+            resolution.match.sampleIds = samples.map((s) => s.sampleId);
+        }
+
+        return resolution;
+    }
+
+    /**
+     * Turn a list of candidates into a match, an ambiguity or an error
+     */
+    private toResolution(
+        requested: string,
+        kind: 'Patient' | 'Sample',
+        studyId: string | undefined,
+        candidates: ResolvedCase[],
+        getId: (candidate: ResolvedCase) => string
+    ): CaseResolution {
+        const where = studyId ? `in study "${studyId}"` : 'in any study';
+
+        if (candidates.length === 0) {
+            return { error: `${kind} "${requested}" not found ${where}` };
+        }
+
+        if (candidates.length > 1) {
+            return { ambiguous: candidates.slice(0, MAX_AMBIGUOUS_MATCHES) };
+        }
+
+        const match = candidates[0];
+        const matchedId = getId(match);
+        return {
+            match,
+            note:
+                matchedId !== requested
+                    ? `${kind} "${requested}" matched "${matchedId}"`
+                    : undefined,
+        };
+    }
+}
+
+export const patientResolver = new PatientResolver();
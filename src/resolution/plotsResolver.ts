@@ -0,0 +1,268 @@
+/**
+ * Plots Resolver
+ * Resolves Plots tab axes and coloring to molecular profiles or clinical attributes
+ */
+
+import { clinicalAttributeResolver } from './clinicalAttributeResolver.js';
+import { geneResolver } from './geneResolver.js';
+import { profileResolver, type AlterationType } from './profileResolver.js';
+import {
+    CLINICAL_ATTRIBUTE_DATA_TYPE,
+    plotsColoringOption,
+    type PlotsAxisSelection,
+    type PlotsColoringSelection,
+} from '../urlBuilders/results.js';
+
+export type PlotsDataType = Exclude<AlterationType, 'fusion'>;
+
+export const PLOTS_DATA_TYPES: PlotsDataType[] = [
+    'mrna',
+    'protein',
+    'cna',
+    'mutation',
+    'methylation',
+];
+
+/**
+ * User-facing axis model accepted by the tool
+ * Either a gene with a data type, or a clinical attribute
+ */
+export interface PlotsAxisInput {
+    gene?: string;
+    dataType?: PlotsDataType;
+    clinicalAttribute?: string;
+    logScale?: boolean;
+}
+
+/**
+ * User-facing coloring model accepted by the tool
+ */
+export interface PlotsColoringInput {
+    gene?: string;
+    clinicalAttribute?: string;
+    // Which gene alterations drive the colors (default: both)
+    by?: Array<'mutation' | 'cna'>;
+}
+
+export interface PlotsInput {
+    horizontal: PlotsAxisInput;
+    vertical: PlotsAxisInput;
+    coloring?: PlotsColoringInput;
+}
+
+export interface PlotsResolution {
+    horizontal?: PlotsAxisSelection;
+    vertical?: PlotsAxisSelection;
+    coloring?: PlotsColoringSelection;
+    // Human-readable description of each resolved part
+    applied: string[];
+    errors: string[];
+}
+
+export class PlotsResolver {
+    /**
+     * Resolve axes and coloring for a single-study query
+     * Genes must be part of the query, since the Plots tab only offers those
+     * Collects every problem instead of stopping at the first one
+     */
+    async resolve(
+        studyId: string,
+        input: PlotsInput,
+        queryGenes: string[]
+    ): Promise<PlotsResolution> {
+        const result: PlotsResolution = { applied: [], errors: [] };
+
+        for (const axis of ['horizontal', 'vertical'] as const) {
+            const resolution = await this.resolveAxis(
+                studyId,
+                input[axis],
+                queryGenes
+            );
+            if ('error' in resolution) {
+                result.errors.push(`${axis} axis: ${resolution.error}`);
+            } else {
+                result[axis] = resolution.selection;
+                result.applied.push(`${axis}: ${resolution.description}`);
+            }
+        }
+
+        if (input.coloring) {
+            const resolution = await this.resolveColoring(
+                studyId,
+                input.coloring,
+                queryGenes
+            );
+            if ('error' in resolution) {
+                result.errors.push(`coloring: ${resolution.error}`);
+            } else {
+                result.coloring = resolution.selection;
+                result.applied.push(`coloring: ${resolution.description}`);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Resolve one axis
+     */
+    private async resolveAxis(
+        studyId: string,
+        input: PlotsAxisInput,
+        queryGenes: string[]
+    ): Promise<
+        | { selection: PlotsAxisSelection; description: string }
+        | { error: string }
+    > {
+        if (input.clinicalAttribute) {
+            if (input.gene || input.dataType) {
+                return {
+                    error: 'use either clinicalAttribute or gene/dataType, not both',
+                };
+            }
+            const attribute = await clinicalAttributeResolver.find(
+                studyId,
+                input.clinicalAttribute
+            );
+            if (!attribute) {
+                return {
+                    error: `Clinical attribute "${input.clinicalAttribute}" not found in study "${studyId}"`,
+                };
+            }
+            return {
+                selection: {
+                    dataType: CLINICAL_ATTRIBUTE_DATA_TYPE,
+                    selectedDataSourceOption: attribute.clinicalAttributeId,
+                    logScale: input.logScale,
+                },
+                description: attribute.displayName,
+            };
+        }
+
+        const dataType = input.dataType || 'mrna';
+        if (!PLOTS_DATA_TYPES.includes(dataType)) {
+            return {
+                error: `Unknown data type "${dataType}" (use ${PLOTS_DATA_TYPES.join(', ')})`,
+            };
+        }
+
+        const gene = await this.resolveQueryGene(input.gene, queryGenes);
+        if ('error' in gene) {
+            return gene;
+        }
+
+        const profile = await profileResolver.getForStudy(studyId, dataType);
+        if (!profile) {
+            const available =
+                await profileResolver.getAvailableAlterationTypes(studyId);
+            return {
+                error: `Study "${studyId}" has no ${dataType} data (available: ${available.join(', ') || 'none'})`,
+            };
+        }
+
+        return {
+            selection: {
+                dataType: profile.molecularAlterationType,
+                selectedDataSourceOption: profile.molecularProfileId,
+                selectedGeneOption: gene.entrezGeneId,
+                mutationCountBy:
+                    dataType === 'mutation' ? 'MutationType' : undefined,
+                logScale: input.logScale,
+            },
+            description: `${gene.symbol} ${profile.name}`,
+        };
+    }
+
+    /**
+     * Resolve point coloring
+     */
+    private async resolveColoring(
+        studyId: string,
+        input: PlotsColoringInput,
+        queryGenes: string[]
+    ): Promise<
+        | { selection: PlotsColoringSelection; description: string }
+        | { error: string }
+    > {
+        if (input.clinicalAttribute) {
+            if (input.gene) {
+                return {
+                    error: 'use either clinicalAttribute or gene, not both',
+                };
+            }
+            const attribute = await clinicalAttributeResolver.find(
+                studyId,
+                input.clinicalAttribute
+            );
+            if (!attribute) {
+                return {
+                    error: `Clinical attribute "${input.clinicalAttribute}" not found in study "${studyId}"`,
+                };
+            }
+            return {
+                selection: {
+                    selectedOption: plotsColoringOption({
+                        clinicalAttributeId: attribute.clinicalAttributeId,
+                        patientAttribute: attribute.patientAttribute,
+                        studyId,
+                    }),
+                },
+                description: attribute.displayName,
+            };
+        }
+
+        const gene = await this.resolveQueryGene(input.gene, queryGenes);
+        if ('error' in gene) {
+            return gene;
+        }
+
+        const by: Array<'mutation' | 'cna'> = input.by?.length
+            ? input.by
+            : ['mutation', 'cna'];
+        for (const type of by) {
+            if (!(await profileResolver.getForStudy(studyId, type))) {
+                return {
+                    error: `Study "${studyId}" has no ${type} data to color by`,
+                };
+            }
+        }
+
+        return {
+            selection: {
+                selectedOption: plotsColoringOption({
+                    entrezGeneId: gene.entrezGeneId,
+                }),
+                colorByMutationType: by.includes('mutation'),
+                colorByCopyNumber: by.includes('cna'),
+            },
+            description: `${gene.symbol} ${by.join(' and ')} status`,
+        };
+    }
+
+    /**
+     * Resolve a gene that must be part of the query, defaulting to the first query gene
+     */
+    private async resolveQueryGene(
+        requested: string | undefined,
+        queryGenes: string[]
+    ): Promise<{ symbol: string; entrezGeneId: number } | { error: string }> {
+        let symbol = queryGenes[0];
+        if (requested) {
+            const resolution = await geneResolver.resolve(requested);
+            if (!resolution.symbol) {
+                return { error: `Gene "${requested}" not found` };
+            }
+            if (!queryGenes.includes(resolution.symbol)) {
+                return {
+                    error: `Gene "${resolution.symbol}" is not part of the query; add it to genes or oql`,
+                };
+            }
+            symbol = resolution.symbol;
+        }
+
+        const gene = await geneResolver.getGeneInfo(symbol);
+        return { symbol, entrezGeneId: gene.entrezGeneId };
+    }
+}
+
+export const plotsResolver = new PlotsResolver();
@@ -3,8 +3,13 @@
  * Handles molecular profile resolution for studies
  */
 
+import type { MolecularProfile } from 'cbioportal-ts-api-client';
 import { apiClient } from '../api/client.js';
 import { profileCache } from '../api/cache.js';
+import { CbioportalUnavailableError } from '../api/errors.js';
+import { logger } from '../observability/logger.js';
+
+const log = logger.child({ component: 'profileResolver' });
 
 export type AlterationType =
     | 'mutation'
@@ -14,31 +19,90 @@ export type AlterationType =
     | 'protein'
     | 'methylation';
 
+export const ALTERATION_TYPES: AlterationType[] = [
+    'mutation',
+    'cna',
+    'fusion',
+    'mrna',
+    'protein',
+    'methylation',
+];
+
 export interface ResolvedProfile {
     molecularProfileId: string;
     molecularAlterationType: string;
+    datatype?: string;
     name: string;
     description?: string;
+    showProfileInAnalysisTab?: boolean;
 }
 
 export class ProfileResolver {
     /**
-     * Map user-friendly alteration type to cBioPortal molecular alteration type
+     * Map user-friendly alteration type to cBioPortal molecular alteration types
+     */
+    private mapAlterationType(type: AlterationType): string[] {
+        const mapping: Record<AlterationType, string[]> = {
+            mutation: ['MUTATION_EXTENDED'],
+            cna: ['COPY_NUMBER_ALTERATION'],
+            // Newer studies use STRUCTURAL_VARIANT, older ones FUSION
+            fusion: ['STRUCTURAL_VARIANT', 'FUSION'],
+            mrna: ['MRNA_EXPRESSION'],
+            protein: ['PROTEIN_LEVEL'],
+            methylation: ['METHYLATION'],
+        };
+        return mapping[type] || ['MUTATION_EXTENDED'];
+    }
+
+    /**
+     * Score how suitable a profile is for querying an alteration type
+     * Higher is better; the Results View needs discrete CNA and z-score expression data
+     */
+    private rankProfile(
+        profile: ResolvedProfile,
+        alterationType: AlterationType
+    ): number {
+        const id = profile.molecularProfileId.toLowerCase();
+        let score = profile.showProfileInAnalysisTab === false ? -100 : 0;
+
+        switch (alterationType) {
+            case 'mutation':
+                if (id.endsWith('_mutations')) score += 10;
+                break;
+            case 'cna':
+                if (profile.datatype === 'DISCRETE') score += 20;
+                if (id.endsWith('_gistic')) score += 5;
+                break;
+            case 'mrna':
+            case 'protein':
+                if (profile.datatype === 'Z-SCORE') score += 20;
+                if (id.includes('rna_seq')) score += 5;
+                if (id.includes('all_sample')) score += 2;
+                break;
+            case 'methylation':
+                if (id.includes('hm450')) score += 5;
+                break;
+        }
+
+        return score;
+    }
+
+    /**
+     * Convert an API profile to the resolved shape
      */
-    private mapAlterationType(type: AlterationType): string {
-        const mapping: Record<AlterationType, string> = {
-            mutation: 'MUTATION_EXTENDED',
-            cna: 'COPY_NUMBER_ALTERATION',
-            fusion: 'FUSION',
-            mrna: 'MRNA_EXPRESSION',
-            protein: 'PROTEIN_LEVEL',
-            methylation: 'METHYLATION',
+    private toResolvedProfile(p: MolecularProfile): ResolvedProfile {
+        return {
+            molecularProfileId: p.molecularProfileId,
+            molecularAlterationType: p.molecularAlterationType,
+            datatype: p.datatype,
+            name: p.name,
+            description: p.description,
+            showProfileInAnalysisTab: p.showProfileInAnalysisTab,
         };
-        return mapping[type] || 'MUTATION_EXTENDED';
     }
 
     /**
-     * Get molecular profile for a study and alteration type
+     * Get the best molecular profile for a study and alteration type
      */
     async getForStudy(
         studyId: string,
@@ -52,32 +116,32 @@ export class ProfileResolver {
 
         try {
             const profiles = await apiClient.getMolecularProfiles(studyId);
-            const targetType = this.mapAlterationType(alterationType);
+            const targetTypes = this.mapAlterationType(alterationType);
 
-            // Find matching profile
-            const profile = profiles.find(
-                (p) => p.molecularAlterationType === targetType
-            );
+            // Pick the most suitable of the matching profiles
+            const candidates = profiles
+                .filter((p) => targetTypes.includes(p.molecularAlterationType))
+                .map((p) => this.toResolvedProfile(p))
+                .sort(
+                    (a, b) =>
+                        this.rankProfile(b, alterationType) -
+                        this.rankProfile(a, alterationType)
+                );
 
-            if (!profile) {
+            if (candidates.length === 0) {
                 profileCache.set(cacheKey, null);
                 return null;
             }
 
-            const result: ResolvedProfile = {
-                molecularProfileId: profile.molecularProfileId,
-                molecularAlterationType: profile.molecularAlterationType,
-                name: profile.name,
-                description: profile.description,
-            };
+            const result = candidates[0];
 
             profileCache.set(cacheKey, result);
             return result;
         } catch (error) {
-            console.error(
-                `Error fetching profiles for study ${studyId}:`,
-                error
-            );
+            if (error instanceof CbioportalUnavailableError) {
+                throw error;
+            }
+            log.error('Error fetching profiles', { studyId, error });
             return null;
         }
     }
@@ -87,30 +151,34 @@ export class ProfileResolver {
      */
     async getAllForStudy(studyId: string): Promise<ResolvedProfile[]> {
         const cacheKey = `profiles:${studyId}`;
-        const cached = profileCache.get(cacheKey);
-        if (cached) {
-            return cached;
-        }
-
         try {
-            const profiles = await apiClient.getMolecularProfiles(studyId);
-            const results = profiles.map((p) => ({
-                molecularProfileId: p.molecularProfileId,
-                molecularAlterationType: p.molecularAlterationType,
-                name: p.name,
-                description: p.description,
-            }));
-
-            profileCache.set(cacheKey, results);
-            return results;
+            return await profileCache.getOrLoad(cacheKey, async () => {
+                const profiles = await apiClient.getMolecularProfiles(studyId);
+                return profiles.map((p) => this.toResolvedProfile(p));
+            });
         } catch (error) {
-            console.error(
-                `Error fetching profiles for study ${studyId}:`,
-                error
-            );
+            if (error instanceof CbioportalUnavailableError) {
+                throw error;
+            }
+            log.error('Error fetching profiles', { studyId, error });
             return [];
         }
     }
+
+    /**
+     * Get the alteration types a study has molecular profiles for
+     */
+    async getAvailableAlterationTypes(
+        studyId: string
+    ): Promise<AlterationType[]> {
+        const profiles = await this.getAllForStudy(studyId);
+        const available = new Set(
+            profiles.map((p) => p.molecularAlterationType)
+        );
+        return ALTERATION_TYPES.filter((t) =>
+            this.mapAlterationType(t).some((m) => available.has(m))
+        );
+    }
 }
 
 export const profileResolver = new ProfileResolver();
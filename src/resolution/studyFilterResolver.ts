@@ -0,0 +1,432 @@
+/**
+ * Study Filter Resolver
+ * Validates structured Study View filters and compiles them into a StudyViewFilter
+ */
+
+import { apiClient } from '../api/client.js';
+import { CbioportalUnavailableError } from '../api/errors.js';
+import { caseListResolver } from './caseListResolver.js';
+import { clinicalAttributeResolver } from './clinicalAttributeResolver.js';
+import { geneResolver } from './geneResolver.js';
+import { patientResolver, type SampleRecord } from './patientResolver.js';
+import { profileResolver, type AlterationType } from './profileResolver.js';
+import type {
+    ClinicalDataFilter,
+    GeneFilter,
+    GeneFilterQuery,
+    StudyViewFilter,
+} from '../urlBuilders/study.js';
+
+export type GeneFilterAlteration = 'mutated' | 'amplified' | 'deleted';
+
+/**
+ * User-facing filter model accepted by the tool
+ */
+export interface StudyFilterInput {
+    clinical?: Array<{
+        attribute: string;
+        values?: string[];
+        min?: number;
+        max?: number;
+    }>;
+    genes?: Array<{
+        gene: string;
+        alteration?: GeneFilterAlteration;
+    }>;
+    caseLists?: string[];
+    sampleIds?: string[];
+}
+
+export interface StudyFilterResolution {
+    filter: StudyViewFilter;
+    applied: string[];
+    errors: string[];
+}
+
+const GENE_FILTER_PROFILES: Record<
+    GeneFilterAlteration,
+    { alterationType: AlterationType; alterations: string[] }
+> = {
+    mutated: { alterationType: 'mutation', alterations: [] },
+    amplified: { alterationType: 'cna', alterations: ['AMP'] },
+    deleted: { alterationType: 'cna', alterations: ['HOMDEL'] },
+};
+
+export class StudyFilterResolver {
+    /**
+     * Resolve filter input for a study
+     * Collects every problem instead of stopping at the first one
+     */
+    async resolve(
+        studyId: string,
+        input: StudyFilterInput
+    ): Promise<StudyFilterResolution> {
+        const filter: StudyViewFilter = {};
+        const applied: string[] = [];
+        const errors: string[] = [];
+
+        if (input.clinical?.length) {
+            filter.clinicalDataFilters = [];
+            for (const clinical of input.clinical) {
+                const result = await this.resolveClinicalFilter(
+                    studyId,
+                    clinical
+                );
+                if ('error' in result) {
+                    errors.push(result.error);
+                } else {
+                    filter.clinicalDataFilters.push(result.filter);
+                    applied.push(result.description);
+                }
+            }
+        }
+
+        if (input.genes?.length) {
+            filter.geneFilters = [];
+            const byProfile = new Map<string, GeneFilterQuery[][]>();
+
+            for (const geneInput of input.genes) {
+                const alteration = geneInput.alteration || 'mutated';
+                const spec = GENE_FILTER_PROFILES[alteration];
+                if (!spec) {
+                    errors.push(
+                        `Unknown gene filter alteration "${alteration}" (use mutated, amplified or deleted)`
+                    );
+                    continue;
+                }
+
+                const profile = await profileResolver.getForStudy(
+                    studyId,
+                    spec.alterationType
+                );
+                if (!profile) {
+                    errors.push(
+                        `Study "${studyId}" has no ${spec.alterationType} profile to filter ${geneInput.gene} by`
+                    );
+                    continue;
+                }
+
+                let gene;
+                try {
+                    gene = await geneResolver.getGeneInfo(geneInput.gene);
+                } catch (error) {
+                    if (error instanceof CbioportalUnavailableError) {
+                        throw error;
+                    }
+                    errors.push(`Gene "${geneInput.gene}" not found`);
+                    continue;
+                }
+
+                const queries = byProfile.get(profile.molecularProfileId) || [];
+                queries.push([
+                    {
+                        hugoGeneSymbol: gene.hugoGeneSymbol,
+                        entrezGeneId: gene.entrezGeneId,
+                        alterations: spec.alterations,
+                        includeDriver: true,
+                        includeVUS: true,
+                        includeUnknownOncogenicity: true,
+                        tiersBooleanMap: {},
+                        includeUnknownTier: true,
+                        includeGermline: true,
+                        includeSomatic: true,
+                        includeUnknownStatus: true,
+                    },
+                ]);
+                byProfile.set(profile.molecularProfileId, queries);
+                applied.push(`${gene.hugoGeneSymbol} ${alteration}`);
+            }
+
+            for (const [molecularProfileId, geneQueries] of byProfile) {
+                const geneFilter: GeneFilter = {
+                    molecularProfileIds: [molecularProfileId],
+                    geneQueries,
+                };
+                filter.geneFilters.push(geneFilter);
+            }
+        }
+
+        if (input.caseLists?.length) {
+            const resolvedIds: string[] = [];
+
+            for (const caseList of input.caseLists) {
+                const resolution = await caseListResolver.resolve(
+                    studyId,
+                    caseList
+                );
+                if ('error' in resolution) {
+                    errors.push(resolution.error);
+                    continue;
+                }
+                if ('ambiguous' in resolution) {
+                    errors.push(
+                        `Case list "${caseList}" is ambiguous: ${resolution.ambiguous
+                            .map((c) => c.caseSetId)
+                            .join(', ')}`
+                    );
+                    continue;
+                }
+                resolvedIds.push(resolution.caseList.caseSetId);
+                applied.push(`case list ${resolution.caseList.caseSetId}`);
+            }
+
+            if (resolvedIds.length > 0) {
+                // Selecting several case lists means samples in any of them
+                filter.caseLists = [resolvedIds];
+            }
+        }
+
+        if (input.sampleIds?.length) {
+            const samples = await patientResolver.getSamplesInStudy(studyId);
+            const knownSampleIds = new Set(samples.map((s) => s.sampleId));
+            const unknown = input.sampleIds.filter(
+                (id) => !knownSampleIds.has(id)
+            );
+            if (unknown.length > 0) {
+                errors.push(
+                    `Samples not found in study "${studyId}": ${unknown.join(', ')}`
+                );
+            } else {
+                filter.sampleIdentifiers = input.sampleIds.map((sampleId) => ({
+                    sampleId,
+                    studyId,
+                }));
+                applied.push(`${input.sampleIds.length} selected samples`);
+            }
+        }
+
+        return { filter, applied, errors };
+    }
+
+    /**
+     * Find the samples of a study that pass a compiled filter
+     * As in Study View, every criterion must hold for the sample itself
+     */
+    async getMatchingSampleIds(
+        studyId: string,
+        filter: StudyViewFilter
+    ): Promise<string[]> {
+        const samples = await patientResolver.getSamplesInStudy(studyId);
+        let sampleIds = samples.map((s) => s.sampleId);
+        const keep = (matching: Set<string>) => {
+            sampleIds = sampleIds.filter((id) => matching.has(id));
+        };
+
+        if (filter.sampleIdentifiers) {
+            keep(
+                new Set(
+                    filter.sampleIdentifiers
+                        .filter((s) => s.studyId === studyId)
+                        .map((s) => s.sampleId)
+                )
+            );
+        }
+
+        for (const caseSetIds of filter.caseLists || []) {
+            const inAnyList = new Set<string>();
+            for (const caseSetId of caseSetIds) {
+                for (const id of await caseListResolver.getSampleIds(
+                    caseSetId
+                )) {
+                    inAnyList.add(id);
+                }
+            }
+            keep(inAnyList);
+        }
+
+        for (const clinicalFilter of filter.clinicalDataFilters || []) {
+            keep(
+                await this.getSamplesMatchingClinical(
+                    studyId,
+                    clinicalFilter,
+                    samples
+                )
+            );
+        }
+
+        for (const geneFilter of filter.geneFilters || []) {
+            for (const queries of geneFilter.geneQueries) {
+                if (sampleIds.length === 0) break;
+                keep(
+                    await this.getAlteredSampleIds(
+                        geneFilter,
+                        queries,
+                        sampleIds
+                    )
+                );
+            }
+        }
+
+        return sampleIds;
+    }
+
+    /**
+     * Find the samples with a value accepted by a clinical filter
+     * Patient attributes select every sample of a matching patient
+     */
+    private async getSamplesMatchingClinical(
+        studyId: string,
+        filter: ClinicalDataFilter,
+        samples: SampleRecord[]
+    ): Promise<Set<string>> {
+        const attribute = await clinicalAttributeResolver.find(
+            studyId,
+            filter.attributeId
+        );
+        const data = await clinicalAttributeResolver.getData(
+            studyId,
+            attribute
+        );
+
+        const accepts = (value: string) =>
+            filter.values.some((v) => {
+                if (v.value !== undefined) {
+                    return v.value === value;
+                }
+                const n = Number(value);
+                return (
+                    value.trim() !== '' &&
+                    !isNaN(n) &&
+                    (v.start === undefined || n > v.start) &&
+                    (v.end === undefined || n <= v.end)
+                );
+            });
+        const matching = data.filter((d) => accepts(d.value));
+
+        if (!attribute.patientAttribute) {
+            return new Set(matching.map((d) => d.sampleId));
+        }
+        const patientIds = new Set(matching.map((d) => d.patientId));
+        return new Set(
+            samples
+                .filter((s) => patientIds.has(s.patientId))
+                .map((s) => s.sampleId)
+        );
+    }
+
+    /**
+     * Find the samples altered in any of the gene queries (OR)
+     */
+    private async getAlteredSampleIds(
+        geneFilter: GeneFilter,
+        queries: GeneFilterQuery[],
+        sampleIds: string[]
+    ): Promise<Set<string>> {
+        const molecularProfileId = geneFilter.molecularProfileIds[0];
+        const altered = new Set<string>();
+
+        for (const query of queries) {
+            const entrezGeneIds = [query.entrezGeneId];
+            const events =
+                query.alterations.length === 0
+                    ? await apiClient.getMutations(
+                          molecularProfileId,
+                          entrezGeneIds,
+                          sampleIds
+                      )
+                    : await apiClient.getDiscreteCopyNumbers(
+                          molecularProfileId,
+                          entrezGeneIds,
+                          sampleIds,
+                          query.alterations[0] as 'AMP' | 'HOMDEL'
+                      );
+            for (const event of events) {
+                altered.add(event.sampleId);
+            }
+        }
+
+        return altered;
+    }
+
+    /**
+     * Resolve a single clinical attribute filter
+     */
+    private async resolveClinicalFilter(
+        studyId: string,
+        input: NonNullable<StudyFilterInput['clinical']>[number]
+    ): Promise<
+        { filter: ClinicalDataFilter; description: string } | { error: string }
+    > {
+        const attribute = await clinicalAttributeResolver.find(
+            studyId,
+            input.attribute
+        );
+        if (!attribute) {
+            return {
+                error: `Clinical attribute "${input.attribute}" not found in study "${studyId}"`,
+            };
+        }
+
+        const attributeId = attribute.clinicalAttributeId;
+        const hasRange = input.min !== undefined || input.max !== undefined;
+
+        if (attribute.datatype === 'NUMBER') {
+            if (!hasRange) {
+                return {
+                    error: `Clinical attribute "${attributeId}" is numeric; provide min and/or max`,
+                };
+            }
+            if (
+                input.min !== undefined &&
+                input.max !== undefined &&
+                input.min > input.max
+            ) {
+                return {
+                    error: `Invalid range for "${attributeId}": min (${input.min}) is greater than max (${input.max})`,
+                };
+            }
+            return {
+                filter: {
+                    attributeId,
+                    values: [{ start: input.min, end: input.max }],
+                },
+                description: `${attributeId} in (${input.min ?? '-∞'}, ${input.max ?? '∞'}]`,
+            };
+        }
+
+        if (hasRange) {
+            return {
+                error: `Clinical attribute "${attributeId}" is categorical; provide values instead of min/max`,
+            };
+        }
+        if (!input.values?.length) {
+            return {
+                error: `Clinical attribute "${attributeId}" requires at least one value`,
+            };
+        }
+
+        // Match values case-insensitively against what the study records
+        const knownValues = await clinicalAttributeResolver.getDistinctValues(
+            studyId,
+            attribute
+        );
+        const resolvedValues: string[] = [];
+        const unknownValues: string[] = [];
+        for (const value of input.values) {
+            const match = knownValues.find(
+                (v) => v.toLowerCase() === value.trim().toLowerCase()
+            );
+            if (match) {
+                resolvedValues.push(match);
+            } else {
+                unknownValues.push(value);
+            }
+        }
+
+        if (unknownValues.length > 0) {
+            return {
+                error: `Unknown values for "${attributeId}": ${unknownValues.join(', ')}. Available values: ${knownValues.join(', ')}`,
+            };
+        }
+
+        return {
+            filter: {
+                attributeId,
+                values: resolvedValues.map((value) => ({ value })),
+            },
+            description: `${attributeId} = ${resolvedValues.join(' or ')}`,
+        };
+    }
+}
+
+export const studyFilterResolver = new StudyFilterResolver();
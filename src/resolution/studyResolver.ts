@@ -5,6 +5,8 @@
 
 import { apiClient } from '../api/client.js';
 import { studyCache } from '../api/cache.js';
+import { CbioportalNotFoundError } from '../api/errors.js';
+import { scoreStudies, type StudySearchOptions } from './studySearch.js';
 
 export interface ResolvedStudy {
     studyId: string;
@@ -12,46 +14,43 @@ export interface ResolvedStudy {
     description?: string;
     cancerType?: string;
     allSampleCount?: number;
+    // Relevance score, set on search results
+    score?: number;
 }
 
 export class StudyResolver {
     /**
-     * Search for studies by keywords
-     * Returns studies where any keyword matches studyId, name, description, or cancer type
+     * Get all studies in the portal
      */
-    async search(keywords: string[]): Promise<ResolvedStudy[]> {
-        const cacheKey = `search:${keywords.join(',')}`;
-        const cached = studyCache.get(cacheKey);
-        if (cached) {
-            return cached;
-        }
-
-        const allStudies = await apiClient.getAllStudies();
-
-        const matches = allStudies.filter((study) => {
-            const searchText = [
-                study.studyId,
-                study.name,
-                study.description,
-                study.cancerType?.name,
-            ]
-                .filter(Boolean)
-                .join(' ')
-                .toLowerCase();
-
-            return keywords.some((kw) => searchText.includes(kw.toLowerCase()));
+    async getAll(): Promise<ResolvedStudy[]> {
+        const cacheKey = 'studies:all';
+        return await studyCache.getOrLoad(cacheKey, async () => {
+            const allStudies = await apiClient.getAllStudies();
+            return allStudies.map((study) => ({
+                studyId: study.studyId,
+                name: study.name,
+                description: study.description,
+                cancerType: study.cancerType?.name,
+                allSampleCount: study.allSampleCount,
+            }));
         });
+    }
 
-        const results = matches.map((study) => ({
-            studyId: study.studyId,
-            name: study.name,
-            description: study.description,
-            cancerType: study.cancerType?.name,
-            allSampleCount: study.allSampleCount,
-        }));
-
-        studyCache.set(cacheKey, results);
-        return results;
+    /**
+     * Search for studies by keywords
+     * Returns studies ranked by relevance; by default every keyword must match
+     */
+    async search(
+        keywords: string[],
+        options: StudySearchOptions = {}
+    ): Promise<ResolvedStudy[]> {
+        const cacheKey = `search:${options.matchMode || 'all'}:${options.limit || ''}:${keywords.join(',')}`;
+        return await studyCache.getOrLoad(cacheKey, async () => {
+            const allStudies = await this.getAll();
+            return scoreStudies(allStudies, keywords, options).map(
+                ({ study, score }) => ({ ...study, score })
+            );
+        });
     }
 
     /**
@@ -69,6 +68,11 @@ export class StudyResolver {
             studyCache.set(cacheKey, true);
             return true;
         } catch (error) {
+            // Only a missing study is cached; an unreachable portal is
+            // reported rather than remembered as an invalid ID
+            if (!(error instanceof CbioportalNotFoundError)) {
+                throw error;
+            }
             studyCache.set(cacheKey, false);
             return false;
         }
@@ -79,22 +83,16 @@ export class StudyResolver {
      */
     async getById(studyId: string): Promise<ResolvedStudy> {
         const cacheKey = `study:${studyId}`;
-        const cached = studyCache.get(cacheKey);
-        if (cached) {
-            return cached;
-        }
-
-        const study = await apiClient.getStudy(studyId);
-        const result = {
-            studyId: study.studyId,
-            name: study.name,
-            description: study.description,
-            cancerType: study.cancerType?.name,
-            allSampleCount: study.allSampleCount,
-        };
-
-        studyCache.set(cacheKey, result);
-        return result;
+        return await studyCache.getOrLoad(cacheKey, async () => {
+            const study = await apiClient.getStudy(studyId);
+            return {
+                studyId: study.studyId,
+                name: study.name,
+                description: study.description,
+                cancerType: study.cancerType?.name,
+                allSampleCount: study.allSampleCount,
+            };
+        });
     }
 }
 
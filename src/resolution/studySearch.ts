@@ -0,0 +1,195 @@
+/**
+ * Study search scoring
+ * Token-aware, field-weighted relevance ranking for study keyword searches
+ */
+
+export interface SearchableStudy {
+    studyId: string;
+    name: string;
+    description?: string;
+    cancerType?: string;
+    allSampleCount?: number;
+}
+
+export interface StudySearchOptions {
+    // 'all' requires every keyword to match (default), 'any' requires at least one
+    matchMode?: 'all' | 'any';
+    // Maximum number of results to return (default: no limit)
+    limit?: number;
+}
+
+export interface ScoredStudy<T extends SearchableStudy> {
+    study: T;
+    score: number;
+    matchedKeywords: number;
+}
+
+/**
+ * Weight of each field; identifiers and names count more than free text
+ */
+const FIELD_WEIGHTS = {
+    studyId: 3,
+    name: 3,
+    cancerType: 2,
+    description: 1,
+};
+
+/**
+ * How well a keyword token matched a field token
+ */
+const MATCH_QUALITY = {
+    exact: 1,
+    prefix: 0.7,
+    substring: 0.4,
+};
+
+const PAN_CAN_ATLAS_BOOST = 1;
+const COHORT_SIZE_BOOST = 0.3; // per order of magnitude of samples
+
+/**
+ * Ratio by which the top score must beat the runner-up to be auto-selected
+ */
+export const CLEAR_WINNER_RATIO = 1.5;
+
+/**
+ * Split text into lowercase alphanumeric tokens
+ */
+export function tokenize(text: string | undefined): string[] {
+    if (!text) {
+        return [];
+    }
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((t) => t.length > 0);
+}
+
+/**
+ * Score one keyword token against a field's tokens
+ */
+function matchToken(keywordToken: string, fieldTokens: string[]): number {
+    let best = 0;
+    for (const token of fieldTokens) {
+        if (token === keywordToken) {
+            return MATCH_QUALITY.exact;
+        }
+        // Short tokens ("lu", "a") would match almost anything as a prefix
+        if (keywordToken.length >= 3 && token.startsWith(keywordToken)) {
+            best = Math.max(best, MATCH_QUALITY.prefix);
+        } else if (keywordToken.length >= 4 && token.includes(keywordToken)) {
+            best = Math.max(best, MATCH_QUALITY.substring);
+        }
+    }
+    return best;
+}
+
+/**
+ * Score a keyword (possibly several tokens, e.g. "PanCancer Atlas") against a study
+ * Every token of the keyword must match somewhere; returns 0 otherwise
+ */
+function scoreKeyword(
+    keywordTokens: string[],
+    fields: Record<keyof typeof FIELD_WEIGHTS, string[]>
+): number {
+    let total = 0;
+
+    for (const keywordToken of keywordTokens) {
+        let best = 0;
+        for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+            const quality = matchToken(
+                keywordToken,
+                fields[field as keyof typeof FIELD_WEIGHTS]
+            );
+            best = Math.max(best, quality * weight);
+        }
+        if (best === 0) {
+            return 0;
+        }
+        total += best;
+    }
+
+    return total / keywordTokens.length;
+}
+
+/**
+ * Rank studies by relevance to the keywords, best first
+ */
+export function scoreStudies<T extends SearchableStudy>(
+    studies: T[],
+    keywords: string[],
+    options: StudySearchOptions = {}
+): ScoredStudy<T>[] {
+    const matchMode = options.matchMode || 'all';
+    const keywordTokens = keywords
+        .map((kw) => tokenize(kw))
+        .filter((tokens) => tokens.length > 0);
+
+    if (keywordTokens.length === 0) {
+        return [];
+    }
+
+    const scored: ScoredStudy<T>[] = [];
+
+    for (const study of studies) {
+        const fields = {
+            studyId: tokenize(study.studyId),
+            name: tokenize(study.name),
+            cancerType: tokenize(study.cancerType),
+            description: tokenize(study.description),
+        };
+
+        let score = 0;
+        let matchedKeywords = 0;
+        for (const tokens of keywordTokens) {
+            const keywordScore = scoreKeyword(tokens, fields);
+            if (keywordScore > 0) {
+                score += keywordScore;
+                matchedKeywords++;
+            }
+        }
+
+        const matches =
+            matchMode === 'all'
+                ? matchedKeywords === keywordTokens.length
+                : matchedKeywords > 0;
+        if (!matches) {
+            continue;
+        }
+
+        // Curated PanCancer Atlas studies are usually what people mean by "TCGA"
+        if (/pan_can_atlas/.test(study.studyId)) {
+            score += PAN_CAN_ATLAS_BOOST;
+        }
+        if (study.allSampleCount) {
+            score += Math.log10(study.allSampleCount + 1) * COHORT_SIZE_BOOST;
+        }
+
+        scored.push({
+            study,
+            score: Math.round(score * 100) / 100,
+            matchedKeywords,
+        });
+    }
+
+    scored.sort(
+        (a, b) =>
+            b.score - a.score || a.study.studyId.localeCompare(b.study.studyId)
+    );
+
+    return options.limit ? scored.slice(0, options.limit) : scored;
+}
+
+/**
+ * Check whether the top result is clearly better than the runner-up
+ */
+export function hasClearWinner(results: Array<{ score?: number }>): boolean {
+    if (results.length === 1) {
+        return true;
+    }
+    if (results.length === 0) {
+        return false;
+    }
+    return (
+        (results[0].score || 0) >= (results[1].score || 0) * CLEAR_WINNER_RATIO
+    );
+}
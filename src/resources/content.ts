@@ -0,0 +1,30 @@
+/**
+ * Helpers shared by the MCP resources
+ */
+
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+
+export const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Wrap data as the JSON contents of a resource read
+ */
+export function toJsonContents(uri: URL, data: unknown) {
+    return {
+        contents: [
+            {
+                uri: uri.href,
+                mimeType: JSON_MIME_TYPE,
+                text: JSON.stringify(data, null, 2),
+            },
+        ],
+    };
+}
+
+/**
+ * Read a single URI template variable
+ */
+export function getVariable(variables: Variables, name: string): string {
+    const value = variables[name];
+    return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
@@ -0,0 +1,39 @@
+/**
+ * MCP Resource: gene details
+ */
+
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { geneResolver } from '../resolution/geneResolver.js';
+import { getVariable, JSON_MIME_TYPE, toJsonContents } from './content.js';
+
+/**
+ * Resource template: a gene by symbol or alias
+ */
+export const geneResource = {
+    name: 'gene',
+    uriTemplate: 'cbioportal://gene/{symbol}',
+    title: 'Gene',
+    description:
+        'Official symbol, Entrez ID and type of a gene; aliases resolve to the official symbol',
+    mimeType: JSON_MIME_TYPE,
+};
+
+export async function readGene(uri: URL, variables: Variables) {
+    const symbol = getVariable(variables, 'symbol');
+    const resolution = await geneResolver.resolve(symbol);
+    if (!resolution.symbol) {
+        const suggestions = resolution.suggestions?.length
+            ? ` (did you mean ${resolution.suggestions.join(', ')}?)`
+            : '';
+        throw new Error(`Gene "${symbol}" not found${suggestions}`);
+    }
+
+    const gene = await geneResolver.getGeneInfo(resolution.symbol);
+    return toJsonContents(uri, {
+        hugoGeneSymbol: gene.hugoGeneSymbol,
+        entrezGeneId: gene.entrezGeneId,
+        type: gene.type,
+        // Set when the URI named an alias
+        resolvedFrom: resolution.matchType === 'alias' ? symbol : undefined,
+    });
+}
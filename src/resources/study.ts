@@ -0,0 +1,166 @@
+/**
+ * MCP Resources: study catalog and per-study details
+ */
+
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { studyResolver } from '../resolution/studyResolver.js';
+import { profileResolver } from '../resolution/profileResolver.js';
+import { caseListResolver } from '../resolution/caseListResolver.js';
+import { clinicalAttributeResolver } from '../resolution/clinicalAttributeResolver.js';
+import { getVariable, JSON_MIME_TYPE, toJsonContents } from './content.js';
+
+const MAX_COMPLETIONS = 50;
+
+/**
+ * Get a study or fail the read with a clear message
+ */
+async function requireStudy(variables: Variables) {
+    const studyId = getVariable(variables, 'studyId');
+    if (!(await studyResolver.validate(studyId))) {
+        throw new Error(`Study ID "${studyId}" not found`);
+    }
+    return await studyResolver.getById(studyId);
+}
+
+/**
+ * Complete a partially typed study ID
+ */
+export async function completeStudyId(value: string): Promise<string[]> {
+    const prefix = value.toLowerCase();
+    const studies = await studyResolver.getAll();
+    return studies
+        .map((s) => s.studyId)
+        .filter((id) => id.toLowerCase().startsWith(prefix))
+        .slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Resource: the whole study catalog
+ */
+export const studyCatalogResource = {
+    name: 'studies',
+    uri: 'cbioportal://studies',
+    title: 'cBioPortal Study Catalog',
+    description: 'Every study in the portal with its cancer type and size',
+    mimeType: JSON_MIME_TYPE,
+};
+
+export async function readStudyCatalog(uri: URL) {
+    const studies = await studyResolver.getAll();
+    return toJsonContents(
+        uri,
+        studies.map((s) => ({
+            studyId: s.studyId,
+            name: s.name,
+            cancerType: s.cancerType,
+            sampleCount: s.allSampleCount,
+        }))
+    );
+}
+
+/**
+ * Resource template: study summary
+ */
+export const studyResource = {
+    name: 'study',
+    uriTemplate: 'cbioportal://study/{studyId}',
+    title: 'cBioPortal Study',
+    description:
+        'Study summary: description, size, available data types and case lists',
+    mimeType: JSON_MIME_TYPE,
+};
+
+/**
+ * List every study as a resource, for clients' resource browsers
+ */
+export async function listStudies() {
+    const studies = await studyResolver.getAll();
+    return {
+        resources: studies.map((s) => ({
+            uri: `cbioportal://study/${s.studyId}`,
+            name: s.studyId,
+            title: s.name,
+            description: s.cancerType,
+            mimeType: JSON_MIME_TYPE,
+        })),
+    };
+}
+
+export async function readStudy(uri: URL, variables: Variables) {
+    const study = await requireStudy(variables);
+    const [dataTypes, caseLists] = await Promise.all([
+        profileResolver.getAvailableAlterationTypes(study.studyId),
+        caseListResolver.getAllForStudy(study.studyId),
+    ]);
+
+    return toJsonContents(uri, {
+        studyId: study.studyId,
+        name: study.name,
+        description: study.description,
+        cancerType: study.cancerType,
+        sampleCount: study.allSampleCount,
+        dataTypes,
+        caseLists: caseLists.map((c) => ({
+            caseSetId: c.caseSetId,
+            name: c.name,
+            sampleCount: c.sampleCount,
+        })),
+    });
+}
+
+/**
+ * Resource template: molecular profiles of a study
+ */
+export const studyProfilesResource = {
+    name: 'study-profiles',
+    uriTemplate: 'cbioportal://study/{studyId}/profiles',
+    title: 'cBioPortal Study Molecular Profiles',
+    description: 'Molecular profiles (mutations, copy number, expression, ...)',
+    mimeType: JSON_MIME_TYPE,
+};
+
+export async function readStudyProfiles(uri: URL, variables: Variables) {
+    const study = await requireStudy(variables);
+    const profiles = await profileResolver.getAllForStudy(study.studyId);
+
+    return toJsonContents(
+        uri,
+        profiles.map((p) => ({
+            molecularProfileId: p.molecularProfileId,
+            name: p.name,
+            molecularAlterationType: p.molecularAlterationType,
+            datatype: p.datatype,
+        }))
+    );
+}
+
+/**
+ * Resource template: clinical attributes of a study
+ */
+export const studyClinicalAttributesResource = {
+    name: 'study-clinical-attributes',
+    uriTemplate: 'cbioportal://study/{studyId}/clinical-attributes',
+    title: 'cBioPortal Study Clinical Attributes',
+    description: 'Clinical attributes recorded for patients and samples',
+    mimeType: JSON_MIME_TYPE,
+};
+
+export async function readStudyClinicalAttributes(
+    uri: URL,
+    variables: Variables
+) {
+    const study = await requireStudy(variables);
+    const attributes = await clinicalAttributeResolver.getAllForStudy(
+        study.studyId
+    );
+
+    return toJsonContents(
+        uri,
+        attributes.map((a) => ({
+            clinicalAttributeId: a.clinicalAttributeId,
+            displayName: a.displayName,
+            datatype: a.datatype,
+            level: a.patientAttribute ? 'patient' : 'sample',
+        }))
+    );
+}
@@ -3,14 +3,69 @@
  * Creates MCP server instance with registered tools
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+    McpServer,
+    ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import {
     resolveAndBuildUrlTool,
     handleResolveAndBuildUrl,
 } from './tools/resolveAndBuildUrl.js';
+import {
+    parseCbioportalUrlTool,
+    handleParseCbioportalUrl,
+} from './tools/parseCbioportalUrl.js';
+import {
+    searchStudiesTool,
+    handleSearchStudies,
+} from './tools/searchStudies.js';
+import {
+    listMolecularProfilesTool,
+    handleListMolecularProfiles,
+} from './tools/listMolecularProfiles.js';
+import {
+    listCaseListsTool,
+    handleListCaseLists,
+} from './tools/listCaseLists.js';
+import {
+    listClinicalAttributesTool,
+    handleListClinicalAttributes,
+} from './tools/listClinicalAttributes.js';
+import {
+    listPatientSamplesTool,
+    handleListPatientSamples,
+} from './tools/listPatientSamples.js';
+import { withPortal, withPortalInput } from './tools/portal.js';
+import { withMetrics } from './tools/instrument.js';
+import {
+    completeStudyId,
+    listStudies,
+    readStudy,
+    readStudyCatalog,
+    readStudyClinicalAttributes,
+    readStudyProfiles,
+    studyCatalogResource,
+    studyClinicalAttributesResource,
+    studyProfilesResource,
+    studyResource,
+} from './resources/study.js';
+import { geneResource, readGene } from './resources/gene.js';
+import { buildOncoprintPrompt, oncoprintPrompt } from './prompts/oncoprint.js';
+import {
+    buildPatientDeepDivePrompt,
+    patientDeepDivePrompt,
+} from './prompts/patientDeepDive.js';
+import {
+    buildCompareCohortsPrompt,
+    compareCohortsPrompt,
+} from './prompts/compareCohorts.js';
+import {
+    buildMutationHotspotPrompt,
+    mutationHotspotPrompt,
+} from './prompts/mutationHotspot.js';
 
 /**
- * Create and configure MCP server with all tools registered
+ * Create and configure MCP server with all tools, resources and prompts registered
  */
 export function createMcpServer(): McpServer {
     const server = new McpServer({
@@ -24,9 +79,201 @@ export function createMcpServer(): McpServer {
         {
             title: resolveAndBuildUrlTool.title,
             description: resolveAndBuildUrlTool.description,
-            inputSchema: resolveAndBuildUrlTool.inputSchema,
+            inputSchema: withPortalInput(resolveAndBuildUrlTool.inputSchema),
+            outputSchema: resolveAndBuildUrlTool.outputSchema,
+        },
+        withMetrics(
+            resolveAndBuildUrlTool.name,
+            withPortal(handleResolveAndBuildUrl)
+        )
+    );
+
+    // Register the URL parser (inverse of resolve_and_build_url)
+    server.registerTool(
+        parseCbioportalUrlTool.name,
+        {
+            title: parseCbioportalUrlTool.title,
+            description: parseCbioportalUrlTool.description,
+            inputSchema: withPortalInput(parseCbioportalUrlTool.inputSchema),
+        },
+        withMetrics(
+            parseCbioportalUrlTool.name,
+            withPortal(handleParseCbioportalUrl)
+        )
+    );
+
+    // Register the read-only discovery tools
+    server.registerTool(
+        searchStudiesTool.name,
+        {
+            title: searchStudiesTool.title,
+            description: searchStudiesTool.description,
+            inputSchema: withPortalInput(searchStudiesTool.inputSchema),
+            annotations: { readOnlyHint: true },
+        },
+        withMetrics(searchStudiesTool.name, withPortal(handleSearchStudies))
+    );
+
+    server.registerTool(
+        listMolecularProfilesTool.name,
+        {
+            title: listMolecularProfilesTool.title,
+            description: listMolecularProfilesTool.description,
+            inputSchema: withPortalInput(listMolecularProfilesTool.inputSchema),
+            annotations: { readOnlyHint: true },
+        },
+        withMetrics(
+            listMolecularProfilesTool.name,
+            withPortal(handleListMolecularProfiles)
+        )
+    );
+
+    server.registerTool(
+        listCaseListsTool.name,
+        {
+            title: listCaseListsTool.title,
+            description: listCaseListsTool.description,
+            inputSchema: withPortalInput(listCaseListsTool.inputSchema),
+            annotations: { readOnlyHint: true },
+        },
+        withMetrics(listCaseListsTool.name, withPortal(handleListCaseLists))
+    );
+
+    server.registerTool(
+        listClinicalAttributesTool.name,
+        {
+            title: listClinicalAttributesTool.title,
+            description: listClinicalAttributesTool.description,
+            inputSchema: withPortalInput(
+                listClinicalAttributesTool.inputSchema
+            ),
+            annotations: { readOnlyHint: true },
+        },
+        withMetrics(
+            listClinicalAttributesTool.name,
+            withPortal(handleListClinicalAttributes)
+        )
+    );
+
+    server.registerTool(
+        listPatientSamplesTool.name,
+        {
+            title: listPatientSamplesTool.title,
+            description: listPatientSamplesTool.description,
+            inputSchema: withPortalInput(listPatientSamplesTool.inputSchema),
+            annotations: { readOnlyHint: true },
+        },
+        withMetrics(
+            listPatientSamplesTool.name,
+            withPortal(handleListPatientSamples)
+        )
+    );
+
+    // Register the study catalog and per-study resources
+    server.registerResource(
+        studyCatalogResource.name,
+        studyCatalogResource.uri,
+        {
+            title: studyCatalogResource.title,
+            description: studyCatalogResource.description,
+            mimeType: studyCatalogResource.mimeType,
+        },
+        readStudyCatalog
+    );
+
+    server.registerResource(
+        studyResource.name,
+        new ResourceTemplate(studyResource.uriTemplate, {
+            list: listStudies,
+            complete: { studyId: completeStudyId },
+        }),
+        {
+            title: studyResource.title,
+            description: studyResource.description,
+            mimeType: studyResource.mimeType,
+        },
+        readStudy
+    );
+
+    server.registerResource(
+        studyProfilesResource.name,
+        new ResourceTemplate(studyProfilesResource.uriTemplate, {
+            list: undefined,
+            complete: { studyId: completeStudyId },
+        }),
+        {
+            title: studyProfilesResource.title,
+            description: studyProfilesResource.description,
+            mimeType: studyProfilesResource.mimeType,
+        },
+        readStudyProfiles
+    );
+
+    server.registerResource(
+        studyClinicalAttributesResource.name,
+        new ResourceTemplate(studyClinicalAttributesResource.uriTemplate, {
+            list: undefined,
+            complete: { studyId: completeStudyId },
+        }),
+        {
+            title: studyClinicalAttributesResource.title,
+            description: studyClinicalAttributesResource.description,
+            mimeType: studyClinicalAttributesResource.mimeType,
+        },
+        readStudyClinicalAttributes
+    );
+
+    // Register gene lookup
+    server.registerResource(
+        geneResource.name,
+        new ResourceTemplate(geneResource.uriTemplate, { list: undefined }),
+        {
+            title: geneResource.title,
+            description: geneResource.description,
+            mimeType: geneResource.mimeType,
+        },
+        readGene
+    );
+
+    // Register workflow prompts
+    server.registerPrompt(
+        oncoprintPrompt.name,
+        {
+            title: oncoprintPrompt.title,
+            description: oncoprintPrompt.description,
+            argsSchema: oncoprintPrompt.argsSchema,
+        },
+        buildOncoprintPrompt
+    );
+
+    server.registerPrompt(
+        patientDeepDivePrompt.name,
+        {
+            title: patientDeepDivePrompt.title,
+            description: patientDeepDivePrompt.description,
+            argsSchema: patientDeepDivePrompt.argsSchema,
+        },
+        buildPatientDeepDivePrompt
+    );
+
+    server.registerPrompt(
+        compareCohortsPrompt.name,
+        {
+            title: compareCohortsPrompt.title,
+            description: compareCohortsPrompt.description,
+            argsSchema: compareCohortsPrompt.argsSchema,
+        },
+        buildCompareCohortsPrompt
+    );
+
+    server.registerPrompt(
+        mutationHotspotPrompt.name,
+        {
+            title: mutationHotspotPrompt.title,
+            description: mutationHotspotPrompt.description,
+            argsSchema: mutationHotspotPrompt.argsSchema,
         },
-        handleResolveAndBuildUrl
+        buildMutationHotspotPrompt
     );
 
     return server;
@@ -0,0 +1,105 @@
+/**
+ * Logging and metrics for tool calls
+ */
+
+import { randomUUID } from 'node:crypto';
+import { toolCallDuration, toolCalls } from '../observability/metrics.js';
+import {
+    getRequestId,
+    logger,
+    runWithRequestId,
+} from '../observability/logger.js';
+
+const log = logger.child({ component: 'tools' });
+
+type ToolResult = {
+    content: Array<{ type: string; text?: string }>;
+    structuredContent?: Record<string, any>;
+};
+
+type Outcome = 'success' | 'needsSelection' | 'error';
+
+/**
+ * Read the outcome and resolved studies from a tool's JSON response
+ */
+function summarize(result: ToolResult): {
+    outcome: Outcome;
+    studyIds?: string[];
+    code?: string;
+    error?: string;
+} {
+    let response = result.structuredContent;
+    if (!response) {
+        try {
+            response = JSON.parse(result.content[0]?.text || '');
+        } catch (error) {
+            return { outcome: 'error', error: 'Unreadable tool response' };
+        }
+    }
+
+    const metadata = response.metadata || {};
+    const studyIds: string[] | undefined =
+        metadata.studyIds ||
+        (metadata.studyId ? [metadata.studyId] : undefined);
+
+    if (response.success) {
+        return { outcome: 'success', studyIds };
+    }
+    if (response.needsSelection) {
+        return { outcome: 'needsSelection' };
+    }
+    return { outcome: 'error', code: response.code, error: response.error };
+}
+
+/**
+ * Wrap a tool handler to log each call and count it by target page and
+ * outcome; calls outside an HTTP request (stdio) get their own request ID
+ */
+export function withMetrics<I, R extends ToolResult>(
+    tool: string,
+    handler: (input: I) => Promise<R>
+) {
+    return (input: I) =>
+        runWithRequestId(getRequestId() || randomUUID(), async () => {
+            const { targetPage, portal } = input as {
+                targetPage?: string;
+                portal?: string;
+            };
+            const stopTimer = toolCallDuration.startTimer({ tool });
+            const start = Date.now();
+
+            try {
+                const result = await handler(input);
+                const summary = summarize(result);
+                toolCalls.inc({
+                    tool,
+                    target_page: targetPage || '',
+                    outcome: summary.outcome,
+                });
+                log.info('Tool call', {
+                    tool,
+                    targetPage,
+                    portal,
+                    ...summary,
+                    durationMs: Date.now() - start,
+                });
+                return result;
+            } catch (error) {
+                toolCalls.inc({
+                    tool,
+                    target_page: targetPage || '',
+                    outcome: 'error',
+                });
+                log.error('Tool call failed', {
+                    tool,
+                    targetPage,
+                    portal,
+                    error,
+                    durationMs: Date.now() - start,
+                });
+                throw error;
+            } finally {
+                stopTimer();
+            }
+        });
+}
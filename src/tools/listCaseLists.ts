@@ -0,0 +1,76 @@
+/**
+ * MCP Tool: list_case_lists
+ * Lists the case lists (sample lists) of a study
+ */
+
+import { z } from 'zod';
+import { studyResolver } from '../resolution/studyResolver.js';
+import { caseListResolver } from '../resolution/caseListResolver.js';
+import { paginate, paginationSchema } from './pagination.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+/**
+ * Tool definition for MCP registration
+ */
+export const listCaseListsTool = {
+    name: 'list_case_lists',
+    title: 'List Case Lists',
+    description: `List the case lists (predefined sample sets) of a study.
+
+Use the returned caseSetId as caseSetId in resolve_and_build_url.
+
+Response Format:
+- { "success": true, "studyId": "...", "items": [{ "caseSetId", "name", "category", "sampleCount" }], "total": N, "offset": 0 }
+- Error: { "success": false, "code": "...", "error": "..." }`,
+    inputSchema: {
+        studyId: z.string().describe('Study ID (e.g., "luad_tcga")'),
+        ...paginationSchema,
+    },
+};
+
+// Infer type from Zod schema
+type ToolInput = {
+    portal?: string;
+    studyId: z.infer<typeof listCaseListsTool.inputSchema.studyId>;
+    offset?: number;
+    limit?: number;
+};
+
+/**
+ * Tool handler for MCP
+ */
+export async function handleListCaseLists(input: ToolInput) {
+    let result: Record<string, any>;
+    try {
+        if (!(await studyResolver.validate(input.studyId))) {
+            result = {
+                success: false,
+                code: 'STUDY_NOT_FOUND',
+                error: `Study ID "${input.studyId}" not found`,
+            };
+        } else {
+            const caseLists = await caseListResolver.getAllForStudy(
+                input.studyId
+            );
+
+            result = {
+                success: true,
+                studyId: input.studyId,
+                ...paginate(
+                    caseLists.map((c) => ({
+                        caseSetId: c.caseSetId,
+                        name: c.name,
+                        category: c.category,
+                        sampleCount: c.sampleCount,
+                    })),
+                    input.offset,
+                    input.limit
+                ),
+            };
+        }
+    } catch (error) {
+        result = errorResponseFor(error);
+    }
+
+    return toToolResult(result);
+}
@@ -0,0 +1,100 @@
+/**
+ * MCP Tool: list_clinical_attributes
+ * Lists the clinical attributes of a study
+ */
+
+import { z } from 'zod';
+import { studyResolver } from '../resolution/studyResolver.js';
+import { clinicalAttributeResolver } from '../resolution/clinicalAttributeResolver.js';
+import { paginate, paginationSchema } from './pagination.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+/**
+ * Tool definition for MCP registration
+ */
+export const listClinicalAttributesTool = {
+    name: 'list_clinical_attributes',
+    title: 'List Clinical Attributes',
+    description: `List the clinical attributes (age, stage, subtype, ...) recorded in a study.
+
+Use the returned IDs in study filters, cohorts, comparison groups and plots.
+
+Response Format:
+- { "success": true, "studyId": "...", "items": [{ "clinicalAttributeId", "displayName", "datatype", "level" }], "total": N, "offset": 0 }
+- Error: { "success": false, "code": "...", "error": "..." }`,
+    inputSchema: {
+        studyId: z.string().describe('Study ID (e.g., "luad_tcga")'),
+        search: z
+            .string()
+            .optional()
+            .describe(
+                'Only list attributes whose ID or display name contains this text'
+            ),
+        level: z
+            .enum(['patient', 'sample'])
+            .optional()
+            .describe('Only list patient-level or sample-level attributes'),
+        ...paginationSchema,
+    },
+};
+
+// Infer type from Zod schema
+type ToolInput = {
+    portal?: string;
+    studyId: z.infer<typeof listClinicalAttributesTool.inputSchema.studyId>;
+    search?: string;
+    level?: z.infer<typeof listClinicalAttributesTool.inputSchema.level>;
+    offset?: number;
+    limit?: number;
+};
+
+/**
+ * Tool handler for MCP
+ */
+export async function handleListClinicalAttributes(input: ToolInput) {
+    let result: Record<string, any>;
+    try {
+        if (!(await studyResolver.validate(input.studyId))) {
+            result = {
+                success: false,
+                code: 'STUDY_NOT_FOUND',
+                error: `Study ID "${input.studyId}" not found`,
+            };
+        } else {
+            const needle = input.search?.trim().toLowerCase();
+            const attributes = (
+                await clinicalAttributeResolver.getAllForStudy(input.studyId)
+            )
+                .filter(
+                    (a) =>
+                        !needle ||
+                        a.clinicalAttributeId.toLowerCase().includes(needle) ||
+                        a.displayName?.toLowerCase().includes(needle)
+                )
+                .filter(
+                    (a) =>
+                        !input.level ||
+                        a.patientAttribute === (input.level === 'patient')
+                );
+
+            result = {
+                success: true,
+                studyId: input.studyId,
+                ...paginate(
+                    attributes.map((a) => ({
+                        clinicalAttributeId: a.clinicalAttributeId,
+                        displayName: a.displayName,
+                        datatype: a.datatype,
+                        level: a.patientAttribute ? 'patient' : 'sample',
+                    })),
+                    input.offset,
+                    input.limit
+                ),
+            };
+        }
+    } catch (error) {
+        result = errorResponseFor(error);
+    }
+
+    return toToolResult(result);
+}
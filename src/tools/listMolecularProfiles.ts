@@ -0,0 +1,84 @@
+/**
+ * MCP Tool: list_molecular_profiles
+ * Lists the molecular profiles of a study
+ */
+
+import { z } from 'zod';
+import { studyResolver } from '../resolution/studyResolver.js';
+import { profileResolver } from '../resolution/profileResolver.js';
+import { paginate, paginationSchema } from './pagination.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+/**
+ * Tool definition for MCP registration
+ */
+export const listMolecularProfilesTool = {
+    name: 'list_molecular_profiles',
+    title: 'List Molecular Profiles',
+    description: `List the molecular profiles (mutations, copy number, expression, ...) of a study.
+
+Use this to check which data types a study has before querying it.
+
+Response Format:
+- { "success": true, "studyId": "...", "items": [{ "molecularProfileId", "name", "molecularAlterationType", "datatype" }], "total": N, "offset": 0 }
+- Error: { "success": false, "code": "...", "error": "..." }`,
+    inputSchema: {
+        studyId: z.string().describe('Study ID (e.g., "luad_tcga")'),
+        molecularAlterationType: z
+            .string()
+            .optional()
+            .describe(
+                'Only list profiles of this type (e.g., "MUTATION_EXTENDED", "MRNA_EXPRESSION")'
+            ),
+        ...paginationSchema,
+    },
+};
+
+// Infer type from Zod schema
+type ToolInput = {
+    portal?: string;
+    studyId: z.infer<typeof listMolecularProfilesTool.inputSchema.studyId>;
+    molecularAlterationType?: string;
+    offset?: number;
+    limit?: number;
+};
+
+/**
+ * Tool handler for MCP
+ */
+export async function handleListMolecularProfiles(input: ToolInput) {
+    let result: Record<string, any>;
+    try {
+        if (!(await studyResolver.validate(input.studyId))) {
+            result = {
+                success: false,
+                code: 'STUDY_NOT_FOUND',
+                error: `Study ID "${input.studyId}" not found`,
+            };
+        } else {
+            const type = input.molecularAlterationType?.toUpperCase();
+            const profiles = (
+                await profileResolver.getAllForStudy(input.studyId)
+            ).filter((p) => !type || p.molecularAlterationType === type);
+
+            result = {
+                success: true,
+                studyId: input.studyId,
+                ...paginate(
+                    profiles.map((p) => ({
+                        molecularProfileId: p.molecularProfileId,
+                        name: p.name,
+                        molecularAlterationType: p.molecularAlterationType,
+                        datatype: p.datatype,
+                    })),
+                    input.offset,
+                    input.limit
+                ),
+            };
+        }
+    } catch (error) {
+        result = errorResponseFor(error);
+    }
+
+    return toToolResult(result);
+}
@@ -0,0 +1,113 @@
+/**
+ * MCP Tool: list_patient_samples
+ * Lists the samples of a patient
+ */
+
+import { z } from 'zod';
+import { studyResolver } from '../resolution/studyResolver.js';
+import {
+    patientResolver,
+    type CaseResolution,
+} from '../resolution/patientResolver.js';
+import { paginate, paginationSchema } from './pagination.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+/**
+ * Tool definition for MCP registration
+ */
+export const listPatientSamplesTool = {
+    name: 'list_patient_samples',
+    title: 'List Patient Samples',
+    description: `List the samples of a patient (e.g., primary tumor and metastasis).
+
+Partial patient IDs are matched against full barcodes. Without a studyId,
+the patient is looked up across all studies.
+
+Response Format:
+- { "success": true, "studyId": "...", "patientId": "...", "items": ["sampleId", ...], "total": N, "offset": 0 }
+- Ambiguity: { "success": false, "needsSelection": true, "options": [{ "studyId", "patientId" }] }
+- Error: { "success": false, "code": "...", "error": "..." }`,
+    inputSchema: {
+        patientId: z
+            .string()
+            .describe('Patient identifier (e.g., "TCGA-05-4244")'),
+        studyId: z
+            .string()
+            .optional()
+            .describe('Study ID; omit to search all studies'),
+        ...paginationSchema,
+    },
+};
+
+// Infer type from Zod schema
+type ToolInput = {
+    portal?: string;
+    patientId: z.infer<typeof listPatientSamplesTool.inputSchema.patientId>;
+    studyId?: string;
+    offset?: number;
+    limit?: number;
+};
+
+/**
+ * Tool handler for MCP
+ */
+export async function handleListPatientSamples(input: ToolInput) {
+    let result: Record<string, any>;
+    try {
+        result = await listPatientSamples(input);
+    } catch (error) {
+        result = errorResponseFor(error);
+    }
+
+    return toToolResult(result);
+}
+
+/**
+ * Resolve the patient and list its samples
+ */
+async function listPatientSamples(input: ToolInput) {
+    const query = { patientId: input.patientId };
+
+    let resolution: CaseResolution;
+    if (input.studyId) {
+        if (!(await studyResolver.validate(input.studyId))) {
+            return {
+                success: false,
+                code: 'STUDY_NOT_FOUND',
+                error: `Study ID "${input.studyId}" not found`,
+            };
+        }
+        resolution = await patientResolver.resolveInStudy(input.studyId, query);
+    } else {
+        resolution = await patientResolver.findAcrossStudies(query);
+    }
+
+    if ('error' in resolution) {
+        return {
+            success: false,
+            code: 'PATIENT_NOT_FOUND',
+            error: resolution.error,
+        };
+    }
+
+    if ('ambiguous' in resolution) {
+        return {
+            success: false,
+            needsSelection: true,
+            message: `Multiple patients match "${input.patientId}". Please specify which one:`,
+            options: resolution.ambiguous.map((c) => ({
+                studyId: c.studyId,
+                patientId: c.patientId,
+            })),
+        };
+    }
+
+    const { match, note } = resolution;
+    return {
+        success: true,
+        studyId: match.studyId,
+        patientId: match.patientId,
+        note,
+        ...paginate(match.sampleIds, input.offset, input.limit),
+    };
+}
@@ -0,0 +1,55 @@
+/**
+ * Pagination shared by the discovery tools
+ * Keeps list output small enough for LLM context
+ */
+
+import { z } from 'zod';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Input schema fields for paginated tools
+ */
+export const paginationSchema = {
+    offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Number of items to skip (default 0)'),
+    limit: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_PAGE_SIZE)
+        .optional()
+        .describe(
+            `Maximum number of items to return (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`
+        ),
+};
+
+export interface Page<T> {
+    items: T[];
+    total: number;
+    offset: number;
+    // Set when more items follow; pass it as offset to get the next page
+    nextOffset?: number;
+}
+
+/**
+ * Cut one page out of a list
+ */
+export function paginate<T>(
+    items: T[],
+    offset: number = 0,
+    limit: number = DEFAULT_PAGE_SIZE
+): Page<T> {
+    const end = offset + limit;
+    return {
+        items: items.slice(offset, end),
+        total: items.length,
+        offset,
+        nextOffset: end < items.length ? end : undefined,
+    };
+}
@@ -0,0 +1,60 @@
+/**
+ * MCP Tool: parse_cbioportal_url
+ * Decodes an existing cBioPortal URL into resolve_and_build_url input
+ */
+
+import { z } from 'zod';
+import { parseCBioPortalUrl, UrlParseError } from '../urlBuilders/parse.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+/**
+ * Tool definition for MCP registration
+ */
+export const parseCbioportalUrlTool = {
+    name: 'parse_cbioportal_url',
+    title: 'Parse cBioPortal URL',
+    description: `Decode a cBioPortal Study, Patient or Results View URL into structured input.
+
+Use this when the user pastes a cBioPortal link and asks to change it
+(e.g. "add KRAS to this", "same thing but for the MSK cohort"):
+1. Call this tool with the URL
+2. Modify the returned "input" as requested
+3. Pass the modified input to resolve_and_build_url to get the new link
+
+Response Format:
+- Success: { "success": true, "input": { "portal": "...", "targetPage": "...", "parameters": {...} }, "host": "...", "navCaseIds": [...], "unrecognizedParams": {...}, "warnings": [...] }
+- Error: { "success": false, "code": "...", "error": "..." }
+
+"unrecognizedParams" lists query parameters with no resolve_and_build_url equivalent;
+they will not survive a rebuild.`,
+    inputSchema: {
+        url: z
+            .string()
+            .describe(
+                'A cBioPortal page URL (e.g., https://www.cbioportal.org/results/oncoprint?cancer_study_list=luad_tcga&gene_list=TP53)'
+            ),
+    },
+};
+
+// Infer type from Zod schema
+type ToolInput = {
+    portal?: string;
+    url: z.infer<typeof parseCbioportalUrlTool.inputSchema.url>;
+};
+
+/**
+ * Tool handler for MCP
+ */
+export async function handleParseCbioportalUrl(input: ToolInput) {
+    let result: Record<string, any>;
+    try {
+        result = { success: true, ...parseCBioPortalUrl(input.url) };
+    } catch (error) {
+        result =
+            error instanceof UrlParseError
+                ? { success: false, code: 'INVALID_URL', error: error.message }
+                : errorResponseFor(error);
+    }
+
+    return toToolResult(result);
+}
@@ -0,0 +1,55 @@
+/**
+ * Portal selection shared by all tools
+ */
+
+import { z, type ZodRawShape } from 'zod';
+import {
+    getDefaultPortal,
+    getPortals,
+    PortalConfigError,
+    runWithPortal,
+} from '../config/portals.js';
+import type { ErrorResponse } from '../types/mcp.js';
+import { toToolResult } from './response.js';
+
+/**
+ * Add the field for choosing a portal per call to a tool's input schema
+ * Called when the server registers its tools, so the description lists
+ * the portals configured by then, not those seen when this module loaded
+ */
+export function withPortalInput<S extends ZodRawShape>(inputSchema: S) {
+    return {
+        portal: z
+            .string()
+            .optional()
+            .describe(
+                `Named cBioPortal instance to use (${getPortals()
+                    .map((p) => `"${p.name}": ${p.baseUrl}`)
+                    .join(', ')}; default "${getDefaultPortal().name}")`
+            ),
+        ...inputSchema,
+    };
+}
+
+/**
+ * Wrap a tool handler so it runs against the portal named in its input
+ */
+export function withPortal<I, R>(handler: (input: I) => Promise<R>) {
+    return async (input: I) => {
+        const { portal } = input as { portal?: string };
+        try {
+            return await runWithPortal(portal, () => handler(input));
+        } catch (error) {
+            if (!(error instanceof PortalConfigError)) {
+                throw error;
+            }
+            const result: ErrorResponse = {
+                success: false,
+                code: 'UNKNOWN_PORTAL',
+                error: error.message,
+                details: { portals: getPortals().map((p) => p.name) },
+            };
+            return toToolResult(result);
+        }
+    };
+}
@@ -4,15 +4,131 @@
  */
 
 import { z } from 'zod';
-import { studyResolver } from '../resolution/studyResolver.js';
+import {
+    ERROR_CODES,
+    type ClarificationResponse,
+    type ErrorResponse,
+    type ResolveAndBuildUrlResponse,
+    type TargetPage,
+} from '../types/mcp.js';
+import {
+    studyResolver,
+    type ResolvedStudy,
+} from '../resolution/studyResolver.js';
+import { hasClearWinner } from '../resolution/studySearch.js';
 import { geneResolver } from '../resolution/geneResolver.js';
 import {
+    patientResolver,
+    type CaseResolution,
+} from '../resolution/patientResolver.js';
+import {
+    cohortResolver,
+    type CohortInput,
+    type CohortResolution,
+} from '../resolution/cohortResolver.js';
+import {
+    comparisonResolver,
+    type ComparisonGroupInput,
+} from '../resolution/comparisonResolver.js';
+import {
+    plotsResolver,
+    type PlotsInput,
+    type PlotsResolution,
+} from '../resolution/plotsResolver.js';
+import {
+    caseListResolver,
+    type ResolvedCaseList,
+} from '../resolution/caseListResolver.js';
+import {
+    studyFilterResolver,
+    type StudyFilterInput,
+} from '../resolution/studyFilterResolver.js';
+import {
+    ALTERATION_TYPES,
     profileResolver,
     type AlterationType,
+    type ResolvedProfile,
 } from '../resolution/profileResolver.js';
-import { buildStudyUrl } from '../urlBuilders/study.js';
+import { buildStudyUrl, type StudyViewFilter } from '../urlBuilders/study.js';
 import { buildPatientUrl } from '../urlBuilders/patient.js';
-import { buildResultsUrl } from '../urlBuilders/results.js';
+import {
+    buildComparisonUrl,
+    COMPARISON_TABS,
+} from '../urlBuilders/comparison.js';
+import {
+    buildResultsUrl,
+    type ResultsUrlOptions,
+} from '../urlBuilders/results.js';
+import {
+    buildOql,
+    getRequiredAlterationTypes,
+    OqlParseError,
+    parseOql,
+    type OqlGeneQuery,
+} from '../urlBuilders/oql.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+// Most studies a useAllMatches query may span; more matches need narrower keywords
+const MAX_QUERY_STUDIES = 40;
+
+/**
+ * Clinical attribute criterion shared by Study View filters and patient cohorts
+ */
+const clinicalFilterSchema = z.object({
+    attribute: z
+        .string()
+        .describe(
+            'Clinical attribute ID or display name (e.g., "AGE", "Tumor Stage")'
+        ),
+    values: z
+        .array(z.string())
+        .optional()
+        .describe('Values to keep for categorical attributes'),
+    min: z
+        .number()
+        .optional()
+        .describe('Lower bound (exclusive) for numeric attributes'),
+    max: z
+        .number()
+        .optional()
+        .describe('Upper bound (inclusive) for numeric attributes'),
+});
+
+/**
+ * Gene alteration criterion shared by Study View filters and patient cohorts
+ */
+const geneFilterSchema = z.object({
+    gene: z.string().describe('Gene symbol'),
+    alteration: z
+        .enum(['mutated', 'amplified', 'deleted'])
+        .optional()
+        .describe('Defaults to mutated'),
+});
+
+// Tabs a comparison link may open; tab is shared by all pages, so this
+// is checked in handleComparisonPage rather than in the input schema
+const comparisonTabSchema = z.enum(COMPARISON_TABS);
+
+/**
+ * One Plots tab axis: a gene with a data type, or a clinical attribute
+ */
+const plotsAxisSchema = z.object({
+    gene: z
+        .string()
+        .optional()
+        .describe('Query gene to plot (defaults to the first query gene)'),
+    dataType: z
+        .enum(['mrna', 'protein', 'cna', 'mutation', 'methylation'])
+        .optional()
+        .describe('Molecular data to plot for the gene (defaults to mrna)'),
+    clinicalAttribute: z
+        .string()
+        .optional()
+        .describe(
+            'Clinical attribute ID or display name (e.g., "FRACTION_GENOME_ALTERED", "Mutation Count")'
+        ),
+    logScale: z.boolean().optional().describe('Use a log scale'),
+});
 
 /**
  * Tool definition for MCP registration
@@ -35,21 +151,46 @@ You should extract entities from the user's query first, then call this tool.
 Response Format:
 - Success: { "success": true, "url": "...", "metadata": {...} }
 - Ambiguity: { "success": false, "needsSelection": true, "message": "...", "options": [...] }
-- Error: { "success": false, "error": "...", "details": {...} }
+- Error: { "success": false, "code": "STUDY_NOT_FOUND", "error": "...", "details": {...} }
+  Codes: ${ERROR_CODES.join(', ')}. UPSTREAM_UNAVAILABLE means the portal could not be reached; retry later rather than changing the input.
 
 Examples:
 
 1. Results page with keywords:
    { "targetPage": "results", "parameters": { "studyKeywords": ["TCGA", "lung"], "genes": ["TP53"] } }
 
-2. Study view:
+2. Results page across several studies:
+   { "targetPage": "results", "parameters": { "studyKeywords": ["TCGA", "PanCancer Atlas"], "useAllMatches": true, "genes": ["TP53"] } }
+
+3. Results page with OQL:
+   { "targetPage": "results", "parameters": { "studyId": "luad_tcga", "oql": "KRAS: MUT=G12; EGFR: AMP; MYC: EXP>2" } }
+
+4. Study view:
    { "targetPage": "study", "parameters": { "studyId": "luad_tcga" } }
 
-3. Patient view:
-   { "targetPage": "patient", "parameters": { "studyId": "luad_tcga", "patientId": "TCGA-001" } }`,
+5. Study view with filters:
+   { "targetPage": "study", "parameters": { "studyId": "brca_tcga", "filters": { "clinical": [{ "attribute": "AGE", "min": 60 }], "genes": [{ "gene": "TP53" }] } } }
+
+6. Patient view:
+   { "targetPage": "patient", "parameters": { "studyId": "luad_tcga", "patientId": "TCGA-001" } }
+
+7. Patient view without a study (looked up across all studies):
+   { "targetPage": "patient", "parameters": { "patientId": "TCGA-05-4244" } }
+
+8. Patient view stepping through a cohort:
+   { "targetPage": "patient", "parameters": { "studyId": "luad_tcga", "cohort": { "genes": [{ "gene": "EGFR" }] } } }
+
+9. Group comparison within a study:
+   { "targetPage": "comparison", "parameters": { "studyId": "coadread_tcga", "groups": [{ "name": "MSI-H", "clinical": [{ "attribute": "MSI Status", "values": ["MSI-H"] }] }, { "name": "MSS", "clinical": [{ "attribute": "MSI Status", "values": ["MSS"] }] }] } }
+
+10. Plots tab:
+   { "targetPage": "results", "parameters": { "studyId": "luad_tcga", "genes": ["TP53"], "plots": { "horizontal": { "gene": "TP53", "dataType": "mrna" }, "vertical": { "clinicalAttribute": "FRACTION_GENOME_ALTERED" }, "coloring": { "by": ["mutation"] } } } }
+
+11. Group comparison between whole studies:
+   { "targetPage": "comparison", "parameters": { "groups": [{ "studyId": "luad_tcga" }, { "studyId": "lusc_tcga" }] } }`,
     inputSchema: {
         targetPage: z
-            .enum(['study', 'patient', 'results'])
+            .enum(['study', 'patient', 'results', 'comparison'])
             .describe('The type of cBioPortal page to navigate to'),
         parameters: z
             .object({
@@ -62,43 +203,253 @@ Examples:
                 studyId: z
                     .string()
                     .optional()
-                    .describe('Direct study ID (skips search if provided)'),
+                    .describe(
+                        'Direct study ID (skips search if provided). For patient pages, omit to look the patient up across all studies'
+                    ),
+                studyIds: z
+                    .array(z.string())
+                    .optional()
+                    .describe(
+                        'Multiple study IDs for a cross-study results query or a combined Study View (e.g., ["luad_tcga", "lusc_tcga"])'
+                    ),
+                maxResults: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe(
+                        'Maximum number of ranked study options to return when a selection is needed (default 10)'
+                    ),
+                useAllMatches: z
+                    .boolean()
+                    .optional()
+                    .describe(
+                        `For results pages: query all studies matching studyKeywords (up to ${MAX_QUERY_STUDIES}) instead of asking which one to use`
+                    ),
                 patientId: z
                     .string()
                     .optional()
-                    .describe('Patient/case identifier'),
+                    .describe(
+                        'Patient/case identifier; partial IDs (e.g., "TCGA-05-4244") are matched against full barcodes'
+                    ),
                 sampleId: z.string().optional().describe('Sample identifier'),
                 genes: z
                     .array(z.string())
                     .optional()
-                    .describe('Gene symbols (e.g., ["TP53", "KRAS"])'),
+                    .describe(
+                        'Gene symbols or common aliases (e.g., ["TP53", "HER2"]). Aliases are mapped to official symbols'
+                    ),
+                oql: z
+                    .string()
+                    .optional()
+                    .describe(
+                        'Onco Query Language for per-gene alterations (e.g., "KRAS: MUT=G12; EGFR: AMP; MYC: EXP>2"). Replaces genes when provided'
+                    ),
                 alterations: z
                     .array(z.string())
                     .optional()
                     .describe(
-                        'Alteration types: mutation, cna, fusion, mrna, protein'
+                        'Alteration types to query: mutation, cna, fusion, mrna, protein, methylation. Selects the matching molecular profiles in the URL'
+                    ),
+                plots: z
+                    .object({
+                        horizontal: plotsAxisSchema.describe('Horizontal axis'),
+                        vertical: plotsAxisSchema.describe('Vertical axis'),
+                        coloring: z
+                            .object({
+                                gene: z
+                                    .string()
+                                    .optional()
+                                    .describe(
+                                        'Query gene whose alterations color the points (defaults to the first query gene)'
+                                    ),
+                                clinicalAttribute: z
+                                    .string()
+                                    .optional()
+                                    .describe(
+                                        'Clinical attribute to color by instead of a gene'
+                                    ),
+                                by: z
+                                    .array(z.enum(['mutation', 'cna']))
+                                    .optional()
+                                    .describe(
+                                        'Gene alterations to color by (defaults to both)'
+                                    ),
+                            })
+                            .optional()
+                            .describe('Point coloring'),
+                    })
+                    .optional()
+                    .describe(
+                        'Plots tab configuration (results page, single study only). Opens the plots tab unless another tab is given'
                     ),
                 caseSetId: z
                     .string()
                     .optional()
                     .describe(
-                        'Case set ID (optional, will be inferred if not provided)'
+                        'Case set ID or suffix (e.g., "luad_tcga_sequenced" or "sequenced"). Validated against the study; inferred from the alteration types if not provided'
                     ),
                 tab: z
                     .string()
                     .optional()
-                    .describe('Specific tab to navigate to'),
+                    .describe(
+                        `Specific tab to navigate to; for comparison pages one of ${comparisonTabSchema.options.join(', ')}`
+                    ),
                 filters: z
-                    .record(z.any())
+                    .object({
+                        clinical: z
+                            .array(clinicalFilterSchema)
+                            .optional()
+                            .describe('Clinical data filters'),
+                        genes: z
+                            .array(geneFilterSchema)
+                            .optional()
+                            .describe(
+                                'Keep only samples altered in these genes'
+                            ),
+                        caseLists: z
+                            .array(z.string())
+                            .optional()
+                            .describe(
+                                'Case list IDs or suffixes (e.g., "sequenced")'
+                            ),
+                        sampleIds: z
+                            .array(z.string())
+                            .optional()
+                            .describe('Explicit sample IDs to select'),
+                    })
+                    .optional()
+                    .describe('Study View filters (study page only)'),
+                cohort: z
+                    .object({
+                        patientIds: z
+                            .array(z.string())
+                            .optional()
+                            .describe(
+                                'Explicit patient IDs, in navigation order (sample IDs are mapped to their patient)'
+                            ),
+                        caseList: z
+                            .string()
+                            .optional()
+                            .describe(
+                                'Case list ID or suffix (e.g., "sequenced")'
+                            ),
+                        clinical: z
+                            .array(clinicalFilterSchema)
+                            .optional()
+                            .describe('Keep patients matching these criteria'),
+                        genes: z
+                            .array(geneFilterSchema)
+                            .optional()
+                            .describe(
+                                'Keep patients with a sample altered in these genes'
+                            ),
+                    })
+                    .optional()
+                    .describe(
+                        'Patients to step through in Patient View (patient page only; requires studyId or studyKeywords). All given criteria must hold. Opens the first patient unless patientId or sampleId is given'
+                    ),
+                groups: z
+                    .array(
+                        z.object({
+                            name: z
+                                .string()
+                                .optional()
+                                .describe(
+                                    'Group name shown in the portal (derived from the criteria if omitted)'
+                                ),
+                            studyId: z
+                                .string()
+                                .optional()
+                                .describe(
+                                    'Study the group comes from (defaults to studyId/studyKeywords)'
+                                ),
+                            clinical: z
+                                .array(clinicalFilterSchema)
+                                .optional()
+                                .describe(
+                                    'Keep samples matching these criteria'
+                                ),
+                            genes: z
+                                .array(geneFilterSchema)
+                                .optional()
+                                .describe(
+                                    'Keep samples altered in these genes'
+                                ),
+                            caseList: z
+                                .string()
+                                .optional()
+                                .describe(
+                                    'Case list ID or suffix (e.g., "sequenced")'
+                                ),
+                            sampleIds: z
+                                .array(z.string())
+                                .optional()
+                                .describe('Explicit sample IDs'),
+                        })
+                    )
                     .optional()
-                    .describe('Additional filters'),
+                    .describe(
+                        'Groups to compare (comparison page only; at least two). All criteria of a group must hold; a group without criteria is the whole study'
+                    ),
             })
             .describe('Parameters for URL building'),
     },
+    // One shape for the three response types (see types/mcp.ts), told
+    // apart by success, needsSelection and code
+    outputSchema: {
+        success: z.boolean().describe('Whether a URL was built'),
+        url: z.string().optional().describe('The cBioPortal URL (success)'),
+        metadata: z
+            .record(z.any())
+            .optional()
+            .describe(
+                'What the URL was built from: studies, genes, case list, profiles, warnings (success)'
+            ),
+        needsSelection: z
+            .boolean()
+            .optional()
+            .describe('Several matches; choose one of options and call again'),
+        message: z
+            .string()
+            .optional()
+            .describe('What to choose between (needsSelection)'),
+        options: z
+            .array(
+                z
+                    .object({
+                        studyId: z.string().optional(),
+                        caseSetId: z.string().optional(),
+                        patientId: z.string().optional(),
+                        sampleId: z.string().optional(),
+                        name: z.string(),
+                        description: z.string().optional(),
+                        sampleCount: z.number().optional(),
+                        score: z.number().optional(),
+                    })
+                    .passthrough()
+            )
+            .optional()
+            .describe('Candidates to choose from (needsSelection)'),
+        context: z
+            .record(z.any())
+            .optional()
+            .describe('Details about the candidates (needsSelection)'),
+        code: z
+            .enum(ERROR_CODES)
+            .optional()
+            .describe('Machine-readable error code (error)'),
+        error: z.string().optional().describe('What went wrong (error)'),
+        details: z
+            .record(z.any())
+            .optional()
+            .describe('Error specifics, e.g. unresolved genes (error)'),
+    },
 };
 
 // Infer type from Zod schema
 type ToolInput = {
+    portal?: string;
     targetPage: z.infer<typeof resolveAndBuildUrlTool.inputSchema.targetPage>;
     parameters: z.infer<typeof resolveAndBuildUrlTool.inputSchema.parameters>;
 };
@@ -108,39 +459,18 @@ type ToolInput = {
  */
 export async function handleResolveAndBuildUrl(input: ToolInput) {
     try {
-        const result = await resolveAndBuildUrl(input);
-        return {
-            content: [
-                {
-                    type: 'text' as const,
-                    text: JSON.stringify(result, null, 2),
-                },
-            ],
-        };
+        return toToolResult(await resolveAndBuildUrl(input));
     } catch (error) {
-        const errorResponse = {
-            success: false,
-            error:
-                error instanceof Error
-                    ? error.message
-                    : 'Unknown error occurred',
-            details: error,
-        };
-        return {
-            content: [
-                {
-                    type: 'text' as const,
-                    text: JSON.stringify(errorResponse, null, 2),
-                },
-            ],
-        };
+        return toToolResult(errorResponseFor(error));
     }
 }
 
 /**
  * Main resolution logic
  */
-async function resolveAndBuildUrl(input: ToolInput) {
+async function resolveAndBuildUrl(
+    input: ToolInput
+): Promise<ResolveAndBuildUrlResponse> {
     const { targetPage, parameters } = input;
 
     switch (targetPage) {
@@ -150,6 +480,8 @@ async function resolveAndBuildUrl(input: ToolInput) {
             return await handlePatientPage(parameters);
         case 'results':
             return await handleResultsPage(parameters);
+        case 'comparison':
+            return await handleComparisonPage(parameters);
         default:
             throw new Error(`Unknown target page: ${targetPage}`);
     }
@@ -158,60 +490,101 @@ async function resolveAndBuildUrl(input: ToolInput) {
 /**
  * Handle Study View page
  */
-async function handleStudyPage(params: ToolInput['parameters']) {
-    let studyId: string;
+async function handleStudyPage(
+    params: ToolInput['parameters']
+): Promise<ResolveAndBuildUrlResponse> {
+    let studyIds: string[];
+    let autoSelected: AutoSelection | undefined;
 
-    // Resolve study ID
-    if (params.studyId) {
+    // Resolve study IDs; several open a combined Study View
+    if (params.studyIds && params.studyIds.length > 0) {
+        const selection = await validateStudyIds([
+            ...params.studyIds,
+            ...(params.studyId ? [params.studyId] : []),
+        ]);
+        if ('response' in selection) {
+            return selection.response;
+        }
+        studyIds = selection.studyIds;
+    } else if (params.studyId) {
         // Direct ID provided, validate it
         const isValid = await studyResolver.validate(params.studyId);
         if (!isValid) {
             return {
                 success: false,
+                code: 'STUDY_NOT_FOUND',
                 error: `Study ID "${params.studyId}" not found`,
             };
         }
-        studyId = params.studyId;
+        studyIds = [params.studyId];
     } else if (params.studyKeywords && params.studyKeywords.length > 0) {
         // Search by keywords
-        const matches = await studyResolver.search(params.studyKeywords);
+        const selection = await selectStudiesByKeywords(params, 'study');
+        if ('response' in selection) {
+            return selection.response;
+        }
+        studyIds = [selection.studyIds[0]];
+        autoSelected = selection.autoSelected;
+    } else {
+        return {
+            success: false,
+            code: 'MISSING_PARAMETER',
+            error: 'Either studyId, studyIds or studyKeywords must be provided',
+        };
+    }
 
-        if (matches.length === 0) {
+    if (studyIds.length > 1) {
+        if (params.filters) {
             return {
                 success: false,
-                error: 'No matching studies found',
-                details: { searchTerms: params.studyKeywords },
+                code: 'INCOMPATIBLE_PARAMETERS',
+                error: 'Study View filters can only be applied to a single study',
+                details: { studyIds },
             };
         }
 
-        if (matches.length > 1) {
-            // Return options for user to choose
+        const studies = await mapWithConcurrency(studyIds, (id) =>
+            studyResolver.getById(id)
+        );
+        return {
+            success: true,
+            url: buildStudyUrl({ studyIds, tab: params.tab }),
+            metadata: {
+                studyIds,
+                studies: studies.map((study) => ({
+                    studyId: study.studyId,
+                    studyName: study.name,
+                })),
+            },
+        };
+    }
+    const [studyId] = studyIds;
+
+    // Validate and compile filters
+    let filters: StudyViewFilter | undefined;
+    let appliedFilters: string[] | undefined;
+    if (params.filters) {
+        const resolution = await studyFilterResolver.resolve(
+            studyId,
+            params.filters as StudyFilterInput
+        );
+        if (resolution.errors.length > 0) {
             return {
                 success: false,
-                needsSelection: true,
-                message: 'Multiple studies found. Please specify which one:',
-                options: matches.map((s) => ({
-                    studyId: s.studyId,
-                    name: s.name,
-                    description: s.description,
-                    sampleCount: s.allSampleCount,
-                })),
+                code: 'INVALID_FILTERS',
+                error: 'Invalid study filters',
+                details: { studyId, errors: resolution.errors },
             };
         }
-
-        studyId = matches[0].studyId;
-    } else {
-        return {
-            success: false,
-            error: 'Either studyId or studyKeywords must be provided',
-        };
+        filters = resolution.filter;
+        appliedFilters = resolution.applied;
     }
 
     // Build URL
     const url = buildStudyUrl({
         studyIds: studyId,
         tab: params.tab,
-        filters: params.filters,
+        filters,
     });
 
     // Get study details for metadata
@@ -223,6 +596,8 @@ async function handleStudyPage(params: ToolInput['parameters']) {
         metadata: {
             studyId,
             studyName: studyDetails.name,
+            autoSelected,
+            appliedFilters,
         },
     };
 }
@@ -230,156 +605,798 @@ async function handleStudyPage(params: ToolInput['parameters']) {
 /**
  * Handle Patient View page
  */
-async function handlePatientPage(params: ToolInput['parameters']) {
-    if (!params.studyId) {
+async function handlePatientPage(
+    params: ToolInput['parameters']
+): Promise<ResolveAndBuildUrlResponse> {
+    if (!params.patientId && !params.sampleId && !params.cohort) {
+        return {
+            success: false,
+            code: 'MISSING_PARAMETER',
+            error: 'Either patientId, sampleId or cohort must be provided',
+        };
+    }
+
+    // Resolve the study, if one was given
+    let studyId: string | undefined;
+    if (params.studyId) {
+        const isValid = await studyResolver.validate(params.studyId);
+        if (!isValid) {
+            return {
+                success: false,
+                code: 'STUDY_NOT_FOUND',
+                error: `Study ID "${params.studyId}" not found`,
+            };
+        }
+        studyId = params.studyId;
+    } else if (params.studyKeywords && params.studyKeywords.length > 0) {
+        const selection = await selectStudiesByKeywords(params, 'patient');
+        if ('response' in selection) {
+            return selection.response;
+        }
+        studyId = selection.studyIds[0];
+    } else if (params.cohort) {
+        return {
+            success: false,
+            code: 'MISSING_PARAMETER',
+            error: 'A cohort requires studyId or studyKeywords',
+        };
+    }
+
+    // Resolve the cohort to navigate through
+    let cohort: CohortResolution | undefined;
+    if (params.cohort) {
+        cohort = await cohortResolver.resolve(
+            studyId,
+            params.cohort as CohortInput
+        );
+        if (cohort.errors.length > 0) {
+            return {
+                success: false,
+                code: 'INVALID_COHORT',
+                error: 'Invalid patient cohort',
+                details: { studyId, errors: cohort.errors },
+            };
+        }
+    }
+
+    // Without an explicit case, open the first patient of the cohort
+    const caseQuery =
+        params.patientId || params.sampleId
+            ? { patientId: params.patientId, sampleId: params.sampleId }
+            : { patientId: cohort.patientIds[0] };
+
+    // Resolve the patient within the study, or find which study has it
+    const resolution: CaseResolution = studyId
+        ? await patientResolver.resolveInStudy(studyId, caseQuery)
+        : await patientResolver.findAcrossStudies(caseQuery);
+
+    if ('error' in resolution) {
         return {
             success: false,
-            error: 'studyId is required for patient page',
+            code: 'PATIENT_NOT_FOUND',
+            error: resolution.error,
+            details: { studyId, ...caseQuery },
         };
     }
 
-    if (!params.patientId && !params.sampleId) {
+    if ('ambiguous' in resolution) {
         return {
             success: false,
-            error: 'Either patientId or sampleId must be provided',
+            needsSelection: true,
+            message: `Multiple ${
+                params.sampleId ? 'samples' : 'patients'
+            } match "${params.sampleId || params.patientId}". Please specify which one:`,
+            options: resolution.ambiguous.map((c) => ({
+                studyId: c.studyId,
+                patientId: c.patientId,
+                sampleId: c.sampleId,
+                name: `${c.sampleId || c.patientId} (${c.studyId})`,
+            })),
         };
     }
 
-    // Validate study exists
-    const isValid = await studyResolver.validate(params.studyId);
-    if (!isValid) {
+    const { match, note } = resolution;
+
+    if (
+        params.patientId &&
+        params.sampleId &&
+        match.patientId.toUpperCase() !== params.patientId.trim().toUpperCase()
+    ) {
         return {
             success: false,
-            error: `Study ID "${params.studyId}" not found`,
+            code: 'SAMPLE_PATIENT_MISMATCH',
+            error: `Sample "${match.sampleId}" belongs to patient "${match.patientId}", not "${params.patientId}"`,
         };
     }
 
+    // The patient being opened must be part of the navigation list
+    let navPatientIds: string[] | undefined;
+    const warnings: string[] = [];
+    if (cohort) {
+        navPatientIds = cohort.patientIds;
+        if (!navPatientIds.includes(match.patientId)) {
+            navPatientIds = [match.patientId, ...navPatientIds];
+            warnings.push(
+                `Patient "${match.patientId}" does not match the cohort; it was added to the start of the navigation list`
+            );
+        }
+    }
+
     // Build URL
     const url = buildPatientUrl({
-        studyId: params.studyId,
-        caseId: params.patientId,
-        sampleId: params.sampleId,
+        studyId: match.studyId,
+        caseId: caseQuery.patientId ? match.patientId : undefined,
+        sampleId: match.sampleId,
         tab: params.tab,
+        navIds: navPatientIds?.map((patientId) => ({
+            studyId: match.studyId,
+            patientId,
+        })),
     });
 
     return {
         success: true,
         url,
         metadata: {
-            studyId: params.studyId,
-            patientId: params.patientId,
-            sampleId: params.sampleId,
+            studyId: match.studyId,
+            patientId: match.patientId,
+            sampleId: match.sampleId,
+            sampleIds: match.sampleIds,
+            note,
+            cohortSize: navPatientIds?.length,
+            cohortCriteria: cohort ? nonEmpty(cohort.applied) : undefined,
+            warnings: nonEmpty(warnings),
         },
     };
 }
 
 /**
- * Handle Results/Query page
+ * Drop empty arrays from response metadata
  */
-async function handleResultsPage(params: ToolInput['parameters']) {
-    let studyId: string;
+function nonEmpty<T>(items: T[]): T[] | undefined {
+    return items.length > 0 ? items : undefined;
+}
 
-    // 1. Resolve study ID
-    if (params.studyId) {
-        const isValid = await studyResolver.validate(params.studyId);
-        if (!isValid) {
-            return {
-                success: false,
-                error: `Study ID "${params.studyId}" not found`,
-            };
+/**
+ * Format a case list as a clarification option
+ */
+function toCaseListOption(caseList: ResolvedCaseList) {
+    return {
+        caseSetId: caseList.caseSetId,
+        name: caseList.name,
+        description: caseList.description,
+        sampleCount: caseList.sampleCount,
+    };
+}
+
+/**
+ * Map resolved profiles to their IDs, keyed by alteration type
+ */
+function profileIdsByType(
+    profiles: Partial<Record<AlterationType, ResolvedProfile>>
+): Partial<Record<AlterationType, string>> {
+    return Object.fromEntries(
+        Object.entries(profiles).map(([type, p]) => [
+            type,
+            p.molecularProfileId,
+        ])
+    );
+}
+
+/**
+ * Build the profile-related Results URL options for the requested alteration types
+ * Returns undefined when nothing was requested so the portal keeps its defaults
+ */
+function buildProfileOptions(
+    studyIds: string[],
+    studyProfiles: Array<Partial<Record<AlterationType, ResolvedProfile>>>,
+    requestedTypes: AlterationType[]
+): ResultsUrlOptions['options'] | undefined {
+    if (requestedTypes.length === 0) {
+        return undefined;
+    }
+
+    // profileFilter lists profile ID suffixes (e.g. "mutations,gistic"),
+    // which is how the portal selects profiles across several studies
+    const suffixes = new Set<string>();
+    studyProfiles.forEach((profiles, i) => {
+        for (const type of requestedTypes) {
+            const profileId = profiles[type]?.molecularProfileId;
+            if (!profileId) continue;
+            const prefix = `${studyIds[i]}_`;
+            suffixes.add(
+                profileId.startsWith(prefix)
+                    ? profileId.slice(prefix.length)
+                    : profileId
+            );
         }
-        studyId = params.studyId;
-    } else if (params.studyKeywords && params.studyKeywords.length > 0) {
-        const matches = await studyResolver.search(params.studyKeywords);
+    });
 
-        if (matches.length === 0) {
-            return {
+    const options: ResultsUrlOptions['options'] = {
+        profileFilter: Array.from(suffixes).join(','),
+    };
+
+    if (studyIds.length === 1) {
+        const profiles = studyProfiles[0];
+        options.geneticProfileIds = {
+            mutation: profiles.mutation?.molecularProfileId,
+            cna: profiles.cna?.molecularProfileId,
+            mrna: profiles.mrna?.molecularProfileId,
+            protein: profiles.protein?.molecularProfileId,
+            methylation: profiles.methylation?.molecularProfileId,
+        };
+    }
+
+    const hasMutation = requestedTypes.includes('mutation');
+    const hasCna = requestedTypes.includes('cna');
+    if (hasMutation && hasCna) {
+        options.dataPriority = 0;
+    } else if (hasMutation) {
+        options.dataPriority = 1;
+    } else if (hasCna) {
+        options.dataPriority = 2;
+    }
+
+    return options;
+}
+
+type StudySelection =
+    | { studyIds: string[]; autoSelected?: AutoSelection }
+    | { response: ErrorResponse | ClarificationResponse };
+
+interface AutoSelection {
+    score: number;
+    runnerUp?: { studyId: string; score: number };
+}
+
+const DEFAULT_MAX_RESULTS = 10;
+
+// Per-study lookups in flight at once for a multi-study query
+const STUDY_LOOKUP_CONCURRENCY = 4;
+
+/**
+ * Map items to results with a bounded number of calls in flight, so a
+ * multi-study query doesn't send a burst of upstream requests
+ */
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    fn: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    };
+    await Promise.all(
+        Array.from(
+            { length: Math.min(STUDY_LOOKUP_CONCURRENCY, items.length) },
+            worker
+        )
+    );
+    return results;
+}
+
+/**
+ * Format a study search result as a clarification option
+ */
+function toStudyOption(study: ResolvedStudy) {
+    return {
+        studyId: study.studyId,
+        name: study.name,
+        description: study.description,
+        sampleCount: study.allSampleCount,
+        score: study.score,
+    };
+}
+
+/**
+ * Select studies by keyword search
+ * Picks a clear winner automatically, returns all matches for Results
+ * queries with useAllMatches (up to MAX_QUERY_STUDIES), and otherwise asks
+ * for a selection among the top-ranked studies
+ */
+async function selectStudiesByKeywords(
+    params: ToolInput['parameters'],
+    targetPage: TargetPage
+): Promise<StudySelection> {
+    // Only Results queries can span several studies
+    const allowMultiple = targetPage === 'results' && params.useAllMatches;
+    const keywords = params.studyKeywords;
+    const maxResults = params.maxResults || DEFAULT_MAX_RESULTS;
+
+    let matches = await studyResolver.search(keywords);
+    let partialMatch = false;
+    if (matches.length === 0) {
+        // Nothing matches every keyword; offer studies matching some of them
+        matches = await studyResolver.search(keywords, { matchMode: 'any' });
+        partialMatch = true;
+    }
+
+    if (matches.length === 0) {
+        return {
+            response: {
                 success: false,
+                code: 'NO_MATCHING_STUDIES',
                 error: 'No matching studies found',
-                details: { searchTerms: params.studyKeywords },
-            };
-        }
+                details: { searchTerms: keywords },
+            },
+        };
+    }
 
-        if (matches.length > 1) {
+    if (!partialMatch) {
+        if (allowMultiple) {
+            // All matches were asked for; never narrow them to one study
+            if (matches.length <= MAX_QUERY_STUDIES) {
+                return { studyIds: matches.map((s) => s.studyId) };
+            }
+        } else if (hasClearWinner(matches)) {
+            const [winner, runnerUp] = matches;
             return {
-                success: false,
-                needsSelection: true,
-                message: 'Multiple studies found. Please specify which one:',
-                options: matches.map((s) => ({
-                    studyId: s.studyId,
-                    name: s.name,
-                    description: s.description,
-                    sampleCount: s.allSampleCount,
-                })),
+                studyIds: [winner.studyId],
+                autoSelected:
+                    matches.length > 1
+                        ? {
+                              score: winner.score,
+                              runnerUp: {
+                                  studyId: runnerUp.studyId,
+                                  score: runnerUp.score,
+                              },
+                          }
+                        : undefined,
             };
         }
+    }
 
-        studyId = matches[0].studyId;
-    } else {
-        return {
+    const message = partialMatch
+        ? `No study matches all keywords. ${matches.length} studies match some of them; please specify which one:`
+        : allowMultiple
+          ? `${matches.length} studies found, more than the ${MAX_QUERY_STUDIES} a query can span. Please use more specific keywords or specify which studies to query:`
+          : `${matches.length} studies found. Please specify which one${
+                targetPage === 'results'
+                    ? ', or set useAllMatches to query all of them'
+                    : ''
+            }:`;
+
+    return {
+        response: {
             success: false,
-            error: 'Either studyId or studyKeywords must be provided',
+            needsSelection: true,
+            message,
+            options: matches.slice(0, maxResults).map(toStudyOption),
+            context: {
+                totalMatches: matches.length,
+                partialMatch,
+            },
+        },
+    };
+}
+
+/**
+ * Validate explicit study IDs, dropping duplicates
+ */
+async function validateStudyIds(studyIds: string[]): Promise<StudySelection> {
+    const uniqueIds = Array.from(new Set(studyIds));
+    const validity = await mapWithConcurrency(uniqueIds, (id) =>
+        studyResolver.validate(id)
+    );
+    const invalidIds = uniqueIds.filter((_, i) => !validity[i]);
+
+    if (invalidIds.length > 0) {
+        return {
+            response: {
+                success: false,
+                code: 'STUDY_NOT_FOUND',
+                error:
+                    invalidIds.length === 1
+                        ? `Study ID "${invalidIds[0]}" not found`
+                        : `Study IDs not found: ${invalidIds.join(', ')}`,
+                details: { invalidStudyIds: invalidIds },
+            },
         };
     }
 
-    // 2. Validate genes
-    if (!params.genes || params.genes.length === 0) {
+    return { studyIds: uniqueIds };
+}
+
+/**
+ * Resolve the set of studies for a Results page query.
+ * Returns either the validated study IDs or a response to send back as-is.
+ */
+async function resolveResultsStudies(
+    params: ToolInput['parameters']
+): Promise<StudySelection> {
+    // Explicit study IDs: validate every one of them
+    const explicitIds = [
+        ...(params.studyIds || []),
+        ...(params.studyId ? [params.studyId] : []),
+    ];
+    if (explicitIds.length > 0) {
+        return await validateStudyIds(explicitIds);
+    }
+
+    if (params.studyKeywords && params.studyKeywords.length > 0) {
+        return await selectStudiesByKeywords(params, 'results');
+    }
+
+    return {
+        response: {
+            success: false,
+            code: 'MISSING_PARAMETER',
+            error: 'Either studyId, studyIds or studyKeywords must be provided',
+        },
+    };
+}
+
+/**
+ * Handle Results/Query page
+ */
+async function handleResultsPage(
+    params: ToolInput['parameters']
+): Promise<ResolveAndBuildUrlResponse> {
+    // 1. Resolve study IDs (one or many)
+    const resolvedStudies = await resolveResultsStudies(params);
+    if ('response' in resolvedStudies) {
+        return resolvedStudies.response;
+    }
+    const { studyIds } = resolvedStudies;
+    const isMultiStudy = studyIds.length > 1;
+
+    // 2. Parse OQL if provided; its genes replace the plain gene list
+    let oqlQueries: OqlGeneQuery[] | undefined;
+    if (params.oql) {
+        try {
+            oqlQueries = parseOql(params.oql);
+        } catch (error) {
+            if (error instanceof OqlParseError) {
+                return {
+                    success: false,
+                    code: 'INVALID_OQL',
+                    error: `Invalid OQL: ${error.message}`,
+                    details: { oql: params.oql },
+                };
+            }
+            throw error;
+        }
+    }
+    const requestedGenes = oqlQueries
+        ? oqlQueries.map((q) => q.gene)
+        : params.genes;
+
+    // 3. Validate genes
+    if (!requestedGenes || requestedGenes.length === 0) {
         return {
             success: false,
+            code: 'MISSING_PARAMETER',
             error: 'At least one gene must be provided',
         };
     }
 
-    const validGenes = await geneResolver.validateBatch(params.genes);
+    const geneResolution = await geneResolver.resolveBatch(requestedGenes);
+    const validGenes = geneResolution.symbols;
+    const geneSubstitutions = geneResolution.substitutions.map((g) => ({
+        input: g.input,
+        symbol: g.symbol,
+    }));
+    const unresolvedGenes = geneResolution.unresolved.map((g) => ({
+        input: g.input,
+        suggestions: g.suggestions,
+    }));
 
     if (validGenes.length === 0) {
         return {
             success: false,
+            code: 'NO_VALID_GENES',
             error: 'No valid genes found',
-            details: { providedGenes: params.genes },
+            details: { providedGenes: requestedGenes, unresolvedGenes },
         };
     }
 
-    if (validGenes.length < params.genes.length) {
-        const invalidGenes = params.genes.filter(
-            (g) => !validGenes.includes(g)
-        );
-        console.warn(
-            `Some genes were invalid and skipped: ${invalidGenes.join(', ')}`
-        );
+    // Every gene in an OQL query carries its own alterations, so none can be dropped
+    if (oqlQueries && unresolvedGenes.length > 0) {
+        return {
+            success: false,
+            code: 'GENE_NOT_FOUND',
+            error: `Invalid genes in OQL: ${unresolvedGenes
+                .map((g) => g.input)
+                .join(', ')}`,
+            details: { oql: params.oql, unresolvedGenes },
+        };
     }
 
-    // 3. Get molecular profile (optional, for metadata)
-    const alterationType =
-        (params.alterations?.[0] as AlterationType) || 'mutation';
-    const profile = await profileResolver.getForStudy(studyId, alterationType);
+    // 4. Collect the alteration types the query needs
+    const unknownAlterations = (params.alterations || []).filter(
+        (a) => !ALTERATION_TYPES.includes(a as AlterationType)
+    );
+    if (unknownAlterations.length > 0) {
+        return {
+            success: false,
+            code: 'UNKNOWN_ALTERATION_TYPE',
+            error: `Unknown alteration types: ${unknownAlterations.join(', ')}`,
+            details: { supportedAlterations: ALTERATION_TYPES },
+        };
+    }
+    const requestedTypes = Array.from(
+        new Set<AlterationType>([
+            ...((params.alterations || []) as AlterationType[]),
+            ...(oqlQueries ? getRequiredAlterationTypes(oqlQueries) : []),
+        ])
+    );
 
-    // 4. Determine case set ID
-    const caseSetId = params.caseSetId || `${studyId}_all`;
+    // 5. Resolve a molecular profile per study for every requested type
+    // Without requested types, the mutation profile is still looked up for metadata
+    const typesToResolve: AlterationType[] =
+        requestedTypes.length > 0 ? requestedTypes : ['mutation'];
+    const studyProfiles = await mapWithConcurrency(studyIds, async (id) => {
+        const profiles: Partial<Record<AlterationType, ResolvedProfile>> = {};
+        for (const type of typesToResolve) {
+            const profile = await profileResolver.getForStudy(id, type);
+            if (profile) {
+                profiles[type] = profile;
+            }
+        }
+        return profiles;
+    });
 
-    // 5. Build URL
+    const warnings: string[] = [];
+    for (const type of requestedTypes) {
+        const missingIn = studyIds.filter((_, i) => !studyProfiles[i][type]);
+        if (missingIn.length === studyIds.length) {
+            const availableTypes = await mapWithConcurrency(studyIds, (id) =>
+                profileResolver.getAvailableAlterationTypes(id)
+            );
+            return {
+                success: false,
+                code: 'PROFILE_NOT_FOUND',
+                error: `No ${type} profile exists in ${studyIds.join(', ')}`,
+                details: {
+                    requestedAlterations: requestedTypes,
+                    oql: params.oql,
+                    availableAlterationTypes: Object.fromEntries(
+                        studyIds.map((id, i) => [id, availableTypes[i]])
+                    ),
+                },
+            };
+        }
+        if (missingIn.length > 0) {
+            warnings.push(
+                `No ${type} profile in ${missingIn.join(', ')}; those samples will show as not profiled`
+            );
+        }
+    }
+
+    const oql = oqlQueries
+        ? buildOql(
+              oqlQueries.map((q, i) => ({
+                  ...q,
+                  gene: geneResolution.resolutions[i].symbol,
+              }))
+          )
+        : undefined;
+
+    // 6. Determine case selection
+    // A case set belongs to a single study, so cross-study queries use all samples
+    if (isMultiStudy && params.caseSetId) {
+        return {
+            success: false,
+            code: 'INCOMPATIBLE_PARAMETERS',
+            error: 'caseSetId can only be used with a single study',
+            details: { studyIds, caseSetId: params.caseSetId },
+        };
+    }
+
+    let caseSetId = 'all';
+    if (!isMultiStudy) {
+        const caseListResolution = await caseListResolver.resolve(
+            studyIds[0],
+            params.caseSetId,
+            requestedTypes
+        );
+
+        if ('ambiguous' in caseListResolution) {
+            return {
+                success: false,
+                needsSelection: true,
+                message: params.caseSetId
+                    ? `Multiple case lists match "${params.caseSetId}". Please specify which one as caseSetId:`
+                    : 'Please specify which case list to use as caseSetId:',
+                options: caseListResolution.ambiguous.map(toCaseListOption),
+                context: { studyId: studyIds[0] },
+            };
+        }
+
+        if ('error' in caseListResolution) {
+            return {
+                success: false,
+                code: 'CASE_LIST_NOT_FOUND',
+                error: caseListResolution.error,
+                details: {
+                    availableCaseLists:
+                        caseListResolution.available.map(toCaseListOption),
+                },
+            };
+        }
+
+        caseSetId = caseListResolution.caseList.caseSetId;
+        if (caseListResolution.note) {
+            warnings.push(caseListResolution.note);
+        }
+    }
+
+    // 7. Resolve Plots tab axes
+    let plots: PlotsResolution | undefined;
+    if (params.plots) {
+        if (isMultiStudy) {
+            return {
+                success: false,
+                code: 'INCOMPATIBLE_PARAMETERS',
+                error: 'plots can only be used with a single study',
+                details: { studyIds },
+            };
+        }
+        plots = await plotsResolver.resolve(
+            studyIds[0],
+            params.plots as PlotsInput,
+            validGenes
+        );
+        if (plots.errors.length > 0) {
+            return {
+                success: false,
+                code: 'INVALID_PLOTS',
+                error: 'Invalid plots configuration',
+                details: { studyId: studyIds[0], errors: plots.errors },
+            };
+        }
+    }
+
+    // 8. Build URL
+    const profileOptions = buildProfileOptions(
+        studyIds,
+        studyProfiles,
+        requestedTypes
+    );
     const url = buildResultsUrl({
-        studies: [studyId],
+        studies: studyIds,
         genes: validGenes,
-        caseSelection: {
-            type: 'case_set',
-            caseSetId,
-        },
-        tab: params.tab,
+        oql,
+        caseSelection: isMultiStudy
+            ? { type: 'all' }
+            : { type: 'case_set', caseSetId },
+        tab: params.tab || (plots ? 'plots' : undefined),
+        options: plots
+            ? {
+                  ...profileOptions,
+                  plotsHorzSelection: plots.horizontal,
+                  plotsVertSelection: plots.vertical,
+                  plotsColoringSelection: plots.coloring,
+              }
+            : profileOptions,
     });
 
     // Get study details for metadata
-    const studyDetails = await studyResolver.getById(studyId);
+    const studyDetails = await mapWithConcurrency(studyIds, (id) =>
+        studyResolver.getById(id)
+    );
+
+    if (!isMultiStudy) {
+        return {
+            success: true,
+            url,
+            metadata: {
+                studyId: studyIds[0],
+                studyName: studyDetails[0].name,
+                genes: validGenes,
+                geneSubstitutions: nonEmpty(geneSubstitutions),
+                unresolvedGenes: nonEmpty(unresolvedGenes),
+                oql,
+                caseSetId,
+                molecularProfileId:
+                    studyProfiles[0][typesToResolve[0]]?.molecularProfileId,
+                molecularProfiles: profileIdsByType(studyProfiles[0]),
+                plots: plots?.applied,
+                warnings: nonEmpty(warnings),
+            },
+        };
+    }
 
     return {
         success: true,
         url,
         metadata: {
-            studyId,
-            studyName: studyDetails.name,
+            studyIds,
             genes: validGenes,
+            geneSubstitutions: nonEmpty(geneSubstitutions),
+            unresolvedGenes: nonEmpty(unresolvedGenes),
+            oql,
             caseSetId,
-            molecularProfileId: profile?.molecularProfileId,
+            warnings: nonEmpty(warnings),
+            totalSampleCount: studyDetails.reduce(
+                (sum, s) => sum + (s.allSampleCount || 0),
+                0
+            ),
+            studies: studyDetails.map((s, i) => ({
+                studyId: s.studyId,
+                studyName: s.name,
+                sampleCount: s.allSampleCount,
+                molecularProfileId:
+                    studyProfiles[i][typesToResolve[0]]?.molecularProfileId,
+                molecularProfiles: profileIdsByType(studyProfiles[i]),
+            })),
+        },
+    };
+}
+
+/**
+ * Handle Group Comparison page
+ */
+async function handleComparisonPage(
+    params: ToolInput['parameters']
+): Promise<ResolveAndBuildUrlResponse> {
+    const groupInputs = (params.groups || []) as ComparisonGroupInput[];
+    if (groupInputs.length < 2) {
+        return {
+            success: false,
+            code: 'MISSING_PARAMETER',
+            error: 'At least two groups must be provided',
+        };
+    }
+    if (params.tab && !comparisonTabSchema.safeParse(params.tab).success) {
+        return {
+            success: false,
+            code: 'UNKNOWN_TAB',
+            error: `Unknown Group Comparison tab "${params.tab}" (use ${comparisonTabSchema.options.join(', ')})`,
+        };
+    }
+
+    // Resolve the default study for groups that don't name one
+    let defaultStudyId: string | undefined;
+    if (params.studyId) {
+        defaultStudyId = params.studyId;
+    } else if (params.studyKeywords && params.studyKeywords.length > 0) {
+        const selection = await selectStudiesByKeywords(params, 'comparison');
+        if ('response' in selection) {
+            return selection.response;
+        }
+        defaultStudyId = selection.studyIds[0];
+    }
+
+    const resolution = await comparisonResolver.resolve(
+        groupInputs,
+        defaultStudyId
+    );
+    if (resolution.errors.length > 0) {
+        return {
+            success: false,
+            code: 'INVALID_GROUPS',
+            error: 'Invalid comparison groups',
+            details: { errors: resolution.errors },
+        };
+    }
+
+    // The portal reads comparison groups from a stored session
+    const comparisonId = await comparisonResolver.createSession(
+        resolution.groups
+    );
+
+    const url = buildComparisonUrl({ comparisonId, tab: params.tab });
+
+    return {
+        success: true,
+        url,
+        metadata: {
+            comparisonId,
+            studyIds: Array.from(
+                new Set(resolution.groups.map((g) => g.studyId))
+            ),
+            groups: resolution.groups.map((g) => ({
+                name: g.group.name,
+                studyId: g.studyId,
+                sampleCount: g.sampleCount,
+                patientCount: g.patientCount,
+                criteria: g.applied,
+            })),
         },
     };
 }
@@ -0,0 +1,56 @@
+/**
+ * Tool results shared by all tools
+ */
+
+import {
+    CbioportalApiError,
+    CbioportalUnavailableError,
+} from '../api/errors.js';
+import type { ErrorResponse } from '../types/mcp.js';
+
+/**
+ * Wrap a tool's response object as an MCP tool result
+ * The object is returned as structuredContent for clients that branch on
+ * it, and as JSON text for those that only read content; error responses
+ * are flagged with isError
+ */
+export function toToolResult(response: Record<string, any>) {
+    return {
+        content: [
+            {
+                type: 'text' as const,
+                text: JSON.stringify(response, null, 2),
+            },
+        ],
+        structuredContent: response,
+        ...('code' in response ? { isError: true } : {}),
+    };
+}
+
+/**
+ * Error response for an exception thrown while handling a tool call
+ */
+export function errorResponseFor(error: unknown): ErrorResponse {
+    if (error instanceof CbioportalUnavailableError) {
+        return {
+            success: false,
+            code: 'UPSTREAM_UNAVAILABLE',
+            error: error.message,
+            details: { portal: error.portal },
+        };
+    }
+    if (error instanceof CbioportalApiError) {
+        return {
+            success: false,
+            code: 'UPSTREAM_ERROR',
+            error: `cBioPortal (${error.portal}) rejected the request: ${error.message}`,
+            details: { portal: error.portal, status: error.status },
+        };
+    }
+    return {
+        success: false,
+        code: 'INTERNAL_ERROR',
+        error:
+            error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+}
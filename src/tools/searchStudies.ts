@@ -0,0 +1,81 @@
+/**
+ * MCP Tool: search_studies
+ * Lists studies matching keywords, ranked by relevance
+ */
+
+import { z } from 'zod';
+import { studyResolver } from '../resolution/studyResolver.js';
+import { paginate, paginationSchema } from './pagination.js';
+import { errorResponseFor, toToolResult } from './response.js';
+
+/**
+ * Tool definition for MCP registration
+ */
+export const searchStudiesTool = {
+    name: 'search_studies',
+    title: 'Search cBioPortal Studies',
+    description: `Search cBioPortal studies by keywords, best matches first.
+
+Use this to explore which studies exist before building a URL. Without keywords,
+lists every study in the portal.
+
+Response Format:
+- { "success": true, "items": [{ "studyId", "name", "cancerType", "sampleCount", "score" }], "total": N, "offset": 0, "nextOffset": 25 }
+- Error: { "success": false, "code": "...", "error": "..." }`,
+    inputSchema: {
+        keywords: z
+            .array(z.string())
+            .optional()
+            .describe('Keywords to search for (e.g., ["TCGA", "lung"])'),
+        matchMode: z
+            .enum(['all', 'any'])
+            .optional()
+            .describe(
+                'Whether every keyword must match (default "all") or at least one'
+            ),
+        ...paginationSchema,
+    },
+};
+
+// Infer type from Zod schema
+type ToolInput = {
+    portal?: string;
+    keywords?: z.infer<typeof searchStudiesTool.inputSchema.keywords>;
+    matchMode?: z.infer<typeof searchStudiesTool.inputSchema.matchMode>;
+    offset?: number;
+    limit?: number;
+};
+
+/**
+ * Tool handler for MCP
+ */
+export async function handleSearchStudies(input: ToolInput) {
+    let result: Record<string, any>;
+    try {
+        const studies =
+            input.keywords && input.keywords.length > 0
+                ? await studyResolver.search(input.keywords, {
+                      matchMode: input.matchMode,
+                  })
+                : await studyResolver.getAll();
+
+        result = {
+            success: true,
+            ...paginate(
+                studies.map((s) => ({
+                    studyId: s.studyId,
+                    name: s.name,
+                    cancerType: s.cancerType,
+                    sampleCount: s.allSampleCount,
+                    score: s.score,
+                })),
+                input.offset,
+                input.limit
+            ),
+        };
+    } catch (error) {
+        result = errorResponseFor(error);
+    }
+
+    return toToolResult(result);
+}
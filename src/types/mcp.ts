@@ -2,32 +2,47 @@
  * MCP Tool input/output type definitions
  */
 
+import type { CohortInput } from '../resolution/cohortResolver.js';
+import type { ComparisonGroupInput } from '../resolution/comparisonResolver.js';
+import type { PlotsInput } from '../resolution/plotsResolver.js';
 import type { AlterationType } from '../resolution/profileResolver.js';
+import type { StudyFilterInput } from '../resolution/studyFilterResolver.js';
 
-export type TargetPage = 'study' | 'patient' | 'results';
+export type TargetPage = 'study' | 'patient' | 'results' | 'comparison';
 
 /**
  * Input for resolve_and_build_url tool
  */
 export interface ResolveAndBuildUrlInput {
+    // Named portal to resolve against (default portal when omitted)
+    portal?: string;
     targetPage: TargetPage;
     parameters: {
         // Study-related
         studyKeywords?: string[];
         studyId?: string;
+        studyIds?: string[];
+        useAllMatches?: boolean;
+        maxResults?: number;
 
         // Patient-related
         patientId?: string;
         sampleId?: string;
+        cohort?: CohortInput;
+
+        // Comparison-related
+        groups?: ComparisonGroupInput[];
 
         // Query/Results-related
         genes?: string[];
+        oql?: string;
         alterations?: AlterationType[];
         caseSetId?: string;
+        plots?: PlotsInput;
 
         // Common
         tab?: string;
-        filters?: Record<string, any>;
+        filters?: StudyFilterInput;
         options?: Record<string, any>;
     };
 }
@@ -41,19 +56,56 @@ export interface SuccessResponse {
     metadata?: {
         studyId?: string;
         studyName?: string;
+        studyIds?: string[];
         genes?: string[];
+        oql?: string;
         caseSetId?: string;
         [key: string]: any;
     };
 }
 
+/**
+ * Machine-readable error codes, stable across releases so clients can
+ * branch on them
+ */
+export const ERROR_CODES = [
+    // Input
+    'MISSING_PARAMETER',
+    'INCOMPATIBLE_PARAMETERS',
+    'INVALID_URL',
+    'UNKNOWN_PORTAL',
+    'UNKNOWN_TAB',
+    // Resolution
+    'STUDY_NOT_FOUND',
+    'NO_MATCHING_STUDIES',
+    'PATIENT_NOT_FOUND',
+    'SAMPLE_PATIENT_MISMATCH',
+    'INVALID_COHORT',
+    'INVALID_FILTERS',
+    'INVALID_OQL',
+    'NO_VALID_GENES',
+    'GENE_NOT_FOUND',
+    'UNKNOWN_ALTERATION_TYPE',
+    'PROFILE_NOT_FOUND',
+    'CASE_LIST_NOT_FOUND',
+    'INVALID_PLOTS',
+    'INVALID_GROUPS',
+    // Upstream and internal failures
+    'UPSTREAM_UNAVAILABLE',
+    'UPSTREAM_ERROR',
+    'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
 /**
  * Error response
  */
 export interface ErrorResponse {
     success: false;
+    code: ErrorCode;
     error: string;
-    details?: any;
+    details?: Record<string, any>;
 }
 
 /**
@@ -64,12 +116,16 @@ export interface ClarificationResponse {
     needsSelection: true;
     message: string;
     options: Array<{
-        studyId: string;
+        studyId?: string;
+        caseSetId?: string;
+        patientId?: string;
+        sampleId?: string;
         name: string;
         description?: string;
         sampleCount?: number;
+        score?: number;
     }>;
-    context?: any;
+    context?: Record<string, any>;
 }
 
 /**
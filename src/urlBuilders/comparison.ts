@@ -0,0 +1,86 @@
+/**
+ * Group Comparison URL builders
+ */
+
+import { buildCBioPortalPageUrl, QueryParams } from './core.js';
+
+/**
+ * Samples of one study that belong to a comparison group
+ */
+export interface ComparisonGroupStudy {
+    id: string;
+    samples: string[];
+    patients: string[];
+}
+
+export interface ComparisonGroup {
+    name: string;
+    description?: string;
+    studies: ComparisonGroupStudy[];
+    // Studies the group was defined in
+    origin: string[];
+}
+
+/**
+ * Body of a comparison session, as stored by the portal's session service
+ */
+export interface ComparisonSession {
+    groups: ComparisonGroup[];
+    origin: string[];
+    groupNameOrder?: string[];
+}
+
+export interface ComparisonUrlOptions {
+    comparisonId: string;
+    tab?: string;
+    // Groups to leave deselected when the page opens
+    unselectedGroups?: string[];
+}
+
+/**
+ * Tabs of the Group Comparison page
+ */
+export const COMPARISON_TABS = [
+    'overlap',
+    'survival',
+    'clinical',
+    'alterations',
+    'mrna',
+    'protein',
+    'dna_methylation',
+    'generic_assay',
+] as const;
+
+/**
+ * Build the session body for a set of groups
+ */
+export function buildComparisonSession(
+    groups: ComparisonGroup[]
+): ComparisonSession {
+    const origin = Array.from(new Set(groups.flatMap((g) => g.origin)));
+    return {
+        groups,
+        origin,
+        groupNameOrder: groups.map((g) => g.name),
+    };
+}
+
+/**
+ * Build a Group Comparison URL for a stored session
+ */
+export function buildComparisonUrl(options: ComparisonUrlOptions): string {
+    const { comparisonId, tab, unselectedGroups } = options;
+
+    const query: QueryParams = {
+        comparisonId,
+    };
+
+    if (unselectedGroups && unselectedGroups.length > 0) {
+        query.unselectedGroups = JSON.stringify(unselectedGroups);
+    }
+
+    // Build pathname with tab if specified
+    const pathname = tab ? `/comparison/${tab}` : '/comparison';
+
+    return buildCBioPortalPageUrl(pathname, query);
+}
@@ -1,24 +1,16 @@
 /**
  * Configuration for URL building
+ * URLs are built for the portal selected for the current request
  */
+import { getCurrentPortal } from '../config/portals.js';
+
 export interface UrlConfig {
+    // Normalized portal URL with protocol, e.g. "https://www.cbioportal.org"
     baseUrl: string;
-    protocol: string;
 }
 
-let config: UrlConfig = {
-    baseUrl: process.env.CBIOPORTAL_BASE_URL || 'www.cbioportal.org',
-    protocol: 'https:',
-};
-
 export function getConfig(): UrlConfig {
-    return config;
-}
-
-export function setConfig(newConfig: Partial<UrlConfig>): void {
-    config = { ...config, ...newConfig };
-}
-
-export function trimTrailingSlash(str: string): string {
-    return str.replace(/\/$/g, '');
+    return {
+        baseUrl: getCurrentPortal().baseUrl,
+    };
 }
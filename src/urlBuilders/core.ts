@@ -3,7 +3,7 @@
  * Adapted from src/shared/api/urls.ts
  */
 
-import { getConfig, trimTrailingSlash } from './config.js';
+import { getConfig } from './config.js';
 
 export interface QueryParams {
     [key: string]:
@@ -66,11 +66,7 @@ export function buildCBioPortalPageUrl(
             ? { pathname: pathnameOrParams, query, hash }
             : pathnameOrParams;
 
-    const config = getConfig();
-    const protocol = config.protocol;
-    const host = trimTrailingSlash(config.baseUrl);
-
-    let url = `${protocol}//${host}`;
+    let url = getConfig().baseUrl;
 
     if (params.pathname) {
         const pathname = params.pathname.startsWith('/')
@@ -0,0 +1,335 @@
+/**
+ * Onco Query Language (OQL) builder and parser
+ * Covers the per-gene subset of OQL used in Results View gene_list queries
+ */
+
+import type { AlterationType } from '../resolution/profileResolver.js';
+
+export type OqlComparator = '>' | '>=' | '<' | '<=';
+export type OqlModifier = 'DRIVER' | 'GERMLINE' | 'SOMATIC';
+export type CnaLevel = 'AMP' | 'GAIN' | 'HETLOSS' | 'HOMDEL';
+
+export const MUTATION_TYPES = [
+    'MISSENSE',
+    'NONSENSE',
+    'NONSTART',
+    'NONSTOP',
+    'FRAMESHIFT',
+    'INFRAME',
+    'SPLICE',
+    'TRUNC',
+    'PROMOTER',
+] as const;
+
+export type MutationType = (typeof MUTATION_TYPES)[number];
+
+const CNA_LEVELS: CnaLevel[] = ['AMP', 'GAIN', 'HETLOSS', 'HOMDEL'];
+const MODIFIERS: OqlModifier[] = ['DRIVER', 'GERMLINE', 'SOMATIC'];
+
+export type OqlAlteration =
+    | {
+          type: 'mutation';
+          mutationType?: MutationType;
+          proteinChange?: string;
+          modifiers?: OqlModifier[];
+      }
+    | {
+          type: 'cna';
+          level: CnaLevel;
+          // Without a comparator the level must match exactly
+          comparator?: OqlComparator;
+          modifiers?: OqlModifier[];
+      }
+    | { type: 'fusion'; modifiers?: OqlModifier[] }
+    | { type: 'mrna'; comparator: OqlComparator; value: number }
+    | { type: 'protein'; comparator: OqlComparator; value: number }
+    | { type: 'driver' };
+
+export interface OqlGeneQuery {
+    gene: string;
+    // Empty or missing means the default alterations (mutations, fusions, AMP, HOMDEL)
+    alterations?: OqlAlteration[];
+}
+
+/**
+ * Error thrown for malformed OQL
+ */
+export class OqlParseError extends Error {
+    constructor(
+        message: string,
+        public readonly statement?: string
+    ) {
+        super(statement ? `${message} (in "${statement}")` : message);
+        this.name = 'OqlParseError';
+    }
+}
+
+const GENE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.\-_@/]*$/;
+const PROTEIN_CHANGE_PATTERN = /^[A-Z*]?\d+([A-Z*]|_[A-Z*]?\d+)?[A-Za-z*]*$/i;
+const COMPARISON_PATTERN = /^(EXP|PROT|CNA)(>=|<=|>|<)(.+)$/;
+
+/**
+ * Serialize a single alteration to its OQL keyword
+ */
+function serializeAlteration(alteration: OqlAlteration): string {
+    let base: string;
+    switch (alteration.type) {
+        case 'mutation':
+            if (alteration.proteinChange) {
+                base = `MUT=${alteration.proteinChange}`;
+            } else if (alteration.mutationType) {
+                base = `MUT=${alteration.mutationType}`;
+            } else {
+                base = 'MUT';
+            }
+            break;
+        case 'cna':
+            base = alteration.comparator
+                ? `CNA${alteration.comparator}${alteration.level}`
+                : alteration.level;
+            break;
+        case 'fusion':
+            base = 'FUSION';
+            break;
+        case 'mrna':
+            return `EXP${alteration.comparator}${alteration.value}`;
+        case 'protein':
+            return `PROT${alteration.comparator}${alteration.value}`;
+        case 'driver':
+            return 'DRIVER';
+    }
+
+    const modifiers = alteration.modifiers || [];
+    return [base, ...modifiers].join('_');
+}
+
+/**
+ * Build an OQL query string from structured gene queries
+ */
+export function buildOql(queries: OqlGeneQuery[]): string {
+    return queries
+        .map((q) => {
+            if (!q.alterations || q.alterations.length === 0) {
+                return q.gene;
+            }
+            return `${q.gene}: ${q.alterations.map(serializeAlteration).join(' ')};`;
+        })
+        .join('\n');
+}
+
+/**
+ * Parse a single OQL alteration keyword (e.g. "MUT=G12_DRIVER", "EXP>2")
+ */
+function parseAlteration(token: string, statement: string): OqlAlteration {
+    // Comparisons carry a value that must not be split on "_"
+    const comparison = token.toUpperCase().match(COMPARISON_PATTERN);
+    if (comparison) {
+        const [, keyword, comparator, rawValue] = comparison;
+        if (keyword === 'CNA') {
+            const level = rawValue as CnaLevel;
+            if (!CNA_LEVELS.includes(level)) {
+                throw new OqlParseError(
+                    `Unknown CNA level "${rawValue}" (expected one of ${CNA_LEVELS.join(', ')})`,
+                    statement
+                );
+            }
+            return {
+                type: 'cna',
+                level,
+                comparator: comparator as OqlComparator,
+            };
+        }
+
+        const value = Number(rawValue);
+        if (!Number.isFinite(value)) {
+            throw new OqlParseError(
+                `${keyword} threshold must be a number, got "${rawValue}"`,
+                statement
+            );
+        }
+        return {
+            type: keyword === 'EXP' ? 'mrna' : 'protein',
+            comparator: comparator as OqlComparator,
+            value,
+        };
+    }
+
+    if (/^(EXP|PROT)$/i.test(token)) {
+        throw new OqlParseError(
+            `${token.toUpperCase()} requires a comparison such as ${token.toUpperCase()}>2`,
+            statement
+        );
+    }
+
+    // Peel modifiers off either end: DRIVER_MUT, MUT_DRIVER, MUT=G12_GERMLINE
+    const parts = token.split('_');
+    const modifiers: OqlModifier[] = [];
+    while (
+        parts.length > 0 &&
+        MODIFIERS.includes(parts[0].toUpperCase() as OqlModifier)
+    ) {
+        modifiers.push(parts.shift().toUpperCase() as OqlModifier);
+    }
+    while (
+        parts.length > 0 &&
+        MODIFIERS.includes(parts[parts.length - 1].toUpperCase() as OqlModifier)
+    ) {
+        modifiers.push(parts.pop().toUpperCase() as OqlModifier);
+    }
+
+    const base = parts.join('_');
+    const upperBase = base.toUpperCase();
+    const withModifiers = modifiers.length > 0 ? { modifiers } : {};
+
+    if (base === '') {
+        if (modifiers.length === 1 && modifiers[0] === 'DRIVER') {
+            return { type: 'driver' };
+        }
+        // GERMLINE / SOMATIC alone apply to mutations
+        return { type: 'mutation', ...withModifiers };
+    }
+
+    if (upperBase === 'MUT') {
+        return { type: 'mutation', ...withModifiers };
+    }
+
+    if (upperBase === 'FUSION') {
+        return { type: 'fusion', ...withModifiers };
+    }
+
+    if (CNA_LEVELS.includes(upperBase as CnaLevel)) {
+        return { type: 'cna', level: upperBase as CnaLevel, ...withModifiers };
+    }
+
+    // MUT=<type or protein change>, or the bare type / protein change
+    const mutationValue = upperBase.startsWith('MUT=')
+        ? base.slice('MUT='.length)
+        : base;
+    const upperValue = mutationValue.toUpperCase();
+
+    if (MUTATION_TYPES.includes(upperValue as MutationType)) {
+        return {
+            type: 'mutation',
+            mutationType: upperValue as MutationType,
+            ...withModifiers,
+        };
+    }
+
+    if (PROTEIN_CHANGE_PATTERN.test(mutationValue)) {
+        return {
+            type: 'mutation',
+            proteinChange: mutationValue,
+            ...withModifiers,
+        };
+    }
+
+    if (upperBase.startsWith('MUT=')) {
+        throw new OqlParseError(
+            `Unknown mutation type or protein change "${mutationValue}"`,
+            statement
+        );
+    }
+
+    throw new OqlParseError(`Unknown OQL keyword "${token}"`, statement);
+}
+
+/**
+ * Parse an OQL query string into structured gene queries
+ * Throws OqlParseError with a description of the first problem found
+ */
+export function parseOql(oql: string): OqlGeneQuery[] {
+    const queries: OqlGeneQuery[] = [];
+    let defaultAlterations: OqlAlteration[] | undefined;
+
+    const statements = oql
+        .split(/[;\n]/)
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
+
+    for (const statement of statements) {
+        if (statement.startsWith('[') || statement.includes('"')) {
+            throw new OqlParseError(
+                'Merged gene tracks are not supported',
+                statement
+            );
+        }
+
+        const colonIndex = statement.indexOf(':');
+
+        // No colon: one or more genes with default alterations
+        if (colonIndex === -1) {
+            for (const gene of statement.split(/\s+/)) {
+                if (!GENE_PATTERN.test(gene)) {
+                    throw new OqlParseError(
+                        `Invalid gene symbol "${gene}"`,
+                        statement
+                    );
+                }
+                queries.push(
+                    defaultAlterations
+                        ? { gene, alterations: defaultAlterations }
+                        : { gene }
+                );
+            }
+            continue;
+        }
+
+        const gene = statement.slice(0, colonIndex).trim();
+        const body = statement
+            .slice(colonIndex + 1)
+            // Allow spaces around operators: "EXP > 2", "MUT = G12"
+            .replace(/\s*(>=|<=|=|>|<)\s*/g, '$1')
+            .trim();
+
+        if (!body) {
+            throw new OqlParseError(
+                `Missing alterations after "${gene}:"`,
+                statement
+            );
+        }
+
+        const alterations = body
+            .split(/\s+/)
+            .map((token) => parseAlteration(token, statement));
+
+        if (gene.toUpperCase() === 'DATATYPES') {
+            defaultAlterations = alterations;
+            continue;
+        }
+
+        if (!GENE_PATTERN.test(gene) || /\s/.test(gene)) {
+            throw new OqlParseError(`Invalid gene symbol "${gene}"`, statement);
+        }
+
+        queries.push({ gene, alterations });
+    }
+
+    if (queries.length === 0) {
+        throw new OqlParseError('OQL query does not contain any genes');
+    }
+
+    return queries;
+}
+
+/**
+ * Get the molecular data types an OQL query needs
+ * Genes without explicit alterations use the default mutation/CNA/fusion data
+ */
+export function getRequiredAlterationTypes(
+    queries: OqlGeneQuery[]
+): AlterationType[] {
+    const types = new Set<AlterationType>();
+
+    for (const query of queries) {
+        if (!query.alterations || query.alterations.length === 0) {
+            continue;
+        }
+        for (const alteration of query.alterations) {
+            if (alteration.type !== 'driver') {
+                types.add(alteration.type);
+            }
+        }
+    }
+
+    return Array.from(types);
+}
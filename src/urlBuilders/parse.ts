@@ -0,0 +1,636 @@
+/**
+ * cBioPortal URL parser
+ * Inverse of buildStudyUrl, buildPatientUrl and buildResultsUrl: decodes
+ * a portal URL back into resolve_and_build_url input
+ */
+
+import type { ResolveAndBuildUrlInput } from '../types/mcp.js';
+import type { AlterationType } from '../resolution/profileResolver.js';
+import type {
+    PlotsAxisInput,
+    PlotsColoringInput,
+    PlotsDataType,
+    PlotsInput,
+} from '../resolution/plotsResolver.js';
+import type {
+    GeneFilterAlteration,
+    StudyFilterInput,
+} from '../resolution/studyFilterResolver.js';
+import { findPortalByHost, getCurrentPortal } from '../config/portals.js';
+import { getRequiredAlterationTypes, parseOql } from './oql.js';
+import {
+    CLINICAL_ATTRIBUTE_DATA_TYPE,
+    GENETIC_PROFILE_PARAMS,
+    type GeneticProfileIds,
+} from './results.js';
+import type { StudyViewFilter } from './study.js';
+
+export interface ParsedCBioPortalUrl {
+    input: ResolveAndBuildUrlInput;
+    // Host the URL points at, e.g. "www.cbioportal.org"; input.portal names
+    // the configured portal serving it, if any
+    host: string;
+    // Navigation list from the patient view navCaseIds hash
+    navCaseIds?: Array<{ studyId: string; patientId: string }>;
+    // Query parameters the tool input has no equivalent for
+    unrecognizedParams?: Record<string, string>;
+    warnings?: string[];
+}
+
+/**
+ * Error thrown for URLs that are not cBioPortal page URLs
+ */
+export class UrlParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UrlParseError';
+    }
+}
+
+// Data type of each profile URL parameter
+const PROFILE_PARAM_TYPES = new Map<string, AlterationType>(
+    Object.entries(GENETIC_PROFILE_PARAMS).map(([type, param]) => [
+        param,
+        type as keyof GeneticProfileIds,
+    ])
+);
+
+// Plots tab data type of each molecular alteration type
+const PLOTS_DATA_TYPES_BY_ALTERATION = new Map<string, PlotsDataType>([
+    ['MUTATION_EXTENDED', 'mutation'],
+    ['COPY_NUMBER_ALTERATION', 'cna'],
+    ['MRNA_EXPRESSION', 'mrna'],
+    ['PROTEIN_LEVEL', 'protein'],
+    ['METHYLATION', 'methylation'],
+]);
+
+/**
+ * Infer the alteration type from a profileFilter suffix (e.g. "gistic")
+ */
+function alterationTypeForSuffix(suffix: string): AlterationType | null {
+    const s = suffix.toLowerCase();
+    if (s.includes('structural_variant') || s.includes('fusion')) {
+        return 'fusion';
+    }
+    if (s.includes('mutation')) return 'mutation';
+    if (s.includes('gistic') || s.includes('cna')) return 'cna';
+    if (s.includes('mrna') || s.includes('rna_seq')) return 'mrna';
+    if (s.includes('rppa') || s.includes('protein')) return 'protein';
+    if (s.includes('methylation')) return 'methylation';
+    return null;
+}
+
+/**
+ * Undo the portal's second level of encoding
+ * Query builder links encode gene_list twice (e.g. "EGFR%2520KRAS"), so
+ * the value still holds %XX sequences after URLSearchParams decodes it
+ */
+function decodeTwice(value: string): string {
+    if (!/%[0-9A-Fa-f]{2}/.test(value)) {
+        return value;
+    }
+    try {
+        return decodeURIComponent(value);
+    } catch (error) {
+        // A literal "%" that isn't an escape
+        return value;
+    }
+}
+
+/**
+ * Split a URL hash like "#filterJson=...&navCaseIds=..." into parameters
+ */
+function parseHash(hash: string): URLSearchParams {
+    return new URLSearchParams(hash.replace(/^#/, ''));
+}
+
+/**
+ * Convert a StudyViewFilter back to the tool's filter model
+ */
+function toStudyFilterInput(
+    filter: StudyViewFilter,
+    warnings: string[]
+): StudyFilterInput {
+    const input: StudyFilterInput = {};
+
+    for (const clinical of filter.clinicalDataFilters || []) {
+        const categorical = clinical.values.filter(
+            (v) => v.value !== undefined
+        );
+        const ranges = clinical.values.filter((v) => v.value === undefined);
+
+        if (categorical.length > 0) {
+            (input.clinical ||= []).push({
+                attribute: clinical.attributeId,
+                values: categorical.map((v) => v.value),
+            });
+        }
+        if (ranges.length > 0) {
+            if (ranges.length > 1) {
+                warnings.push(
+                    `Only the first of ${ranges.length} ranges for "${clinical.attributeId}" was kept`
+                );
+            }
+            const entry: NonNullable<StudyFilterInput['clinical']>[number] = {
+                attribute: clinical.attributeId,
+            };
+            if (ranges[0].start !== undefined) entry.min = ranges[0].start;
+            if (ranges[0].end !== undefined) entry.max = ranges[0].end;
+            (input.clinical ||= []).push(entry);
+        }
+    }
+
+    for (const geneFilter of filter.geneFilters || []) {
+        for (const group of geneFilter.geneQueries) {
+            if (group.length > 1) {
+                warnings.push(
+                    `OR-combined gene filter (${group
+                        .map((q) => q.hugoGeneSymbol)
+                        .join(' | ')}) was split into separate filters`
+                );
+            }
+            for (const query of group) {
+                let alteration: GeneFilterAlteration = 'mutated';
+                if (query.alterations?.includes('AMP')) {
+                    alteration = 'amplified';
+                } else if (query.alterations?.includes('HOMDEL')) {
+                    alteration = 'deleted';
+                }
+                (input.genes ||= []).push({
+                    gene: query.hugoGeneSymbol,
+                    alteration,
+                });
+            }
+        }
+    }
+
+    if (filter.caseLists?.length) {
+        input.caseLists = filter.caseLists.flat();
+    }
+
+    if (filter.sampleIdentifiers?.length) {
+        input.sampleIds = filter.sampleIdentifiers.map((s) => s.sampleId);
+    }
+
+    return input;
+}
+
+/**
+ * Parse a Study View URL
+ */
+function parseStudyUrl(
+    tab: string | undefined,
+    query: URLSearchParams,
+    hash: URLSearchParams,
+    warnings: string[]
+): ResolveAndBuildUrlInput['parameters'] {
+    const ids = (query.get('id') || query.get('studyId') || '')
+        .split(',')
+        .filter(Boolean);
+    query.delete('id');
+    query.delete('studyId');
+
+    if (ids.length === 0) {
+        throw new UrlParseError('Study View URL has no "id" parameter');
+    }
+
+    const parameters: ResolveAndBuildUrlInput['parameters'] =
+        ids.length === 1 ? { studyId: ids[0] } : { studyIds: ids };
+    if (tab) {
+        parameters.tab = tab;
+    }
+
+    const filterJson = hash.get('filterJson') || query.get('filterJson');
+    query.delete('filterJson');
+    if (filterJson && ids.length > 1) {
+        // The tool only applies filters to a single study
+        warnings.push(
+            'Filters of a multi-study Study View are not supported and were ignored'
+        );
+    } else if (filterJson) {
+        try {
+            const filter = JSON.parse(filterJson) as StudyViewFilter;
+            parameters.filters = toStudyFilterInput(filter, warnings);
+        } catch (error) {
+            warnings.push('filterJson could not be parsed and was ignored');
+        }
+    }
+
+    return parameters;
+}
+
+/**
+ * Parse a Patient/Sample View URL
+ */
+function parsePatientUrl(
+    tab: string | undefined,
+    query: URLSearchParams,
+    hash: URLSearchParams,
+    result: Partial<ParsedCBioPortalUrl>
+): ResolveAndBuildUrlInput['parameters'] {
+    const studyId = query.get('studyId');
+    const caseId = query.get('caseId');
+    const sampleId = query.get('sampleId');
+    query.delete('studyId');
+    query.delete('caseId');
+    query.delete('sampleId');
+
+    if (!caseId && !sampleId) {
+        throw new UrlParseError(
+            'Patient View URL has neither "caseId" nor "sampleId"'
+        );
+    }
+
+    const parameters: ResolveAndBuildUrlInput['parameters'] = {};
+    if (studyId) parameters.studyId = studyId;
+    if (caseId) {
+        parameters.patientId = caseId;
+    } else {
+        parameters.sampleId = sampleId;
+    }
+    if (tab) parameters.tab = tab;
+
+    const navCaseIds = hash.get('navCaseIds');
+    if (navCaseIds) {
+        result.navCaseIds = navCaseIds
+            .split(',')
+            .filter(Boolean)
+            .map((id) => {
+                const separator = id.indexOf(':');
+                return {
+                    studyId: id.slice(0, separator),
+                    patientId: id.slice(separator + 1),
+                };
+            });
+
+        // A single-study navigation list round-trips as a cohort
+        if (
+            studyId &&
+            result.navCaseIds.every((id) => id.studyId === studyId)
+        ) {
+            parameters.cohort = {
+                patientIds: result.navCaseIds.map((id) => id.patientId),
+            };
+        }
+    }
+
+    return parameters;
+}
+
+/**
+ * Read a Plots tab selection parameter, a JSON object of strings
+ */
+function readPlotsParam(
+    query: URLSearchParams,
+    param: string,
+    warnings: string[]
+): Record<string, string> | null {
+    const value = query.get(param);
+    query.delete(param);
+    if (!value) {
+        return null;
+    }
+    try {
+        const selection = JSON.parse(value);
+        if (selection && typeof selection === 'object') {
+            return selection;
+        }
+    } catch (error) {
+        // Reported below
+    }
+    warnings.push(
+        `${param} is not a valid Plots tab selection and was ignored`
+    );
+    return null;
+}
+
+/**
+ * Decode one Plots tab axis
+ * Genes are stored as Entrez IDs, which can't be mapped back to a symbol
+ * offline, so the axis keeps the tool's default: the first query gene
+ */
+function parsePlotsAxis(
+    param: string,
+    selection: Record<string, string>,
+    multiGene: boolean,
+    warnings: string[]
+): PlotsAxisInput | null {
+    const axis: PlotsAxisInput = {};
+    if (selection.dataType === CLINICAL_ATTRIBUTE_DATA_TYPE) {
+        if (!selection.selectedDataSourceOption) {
+            warnings.push(
+                `${param} names no clinical attribute and was ignored`
+            );
+            return null;
+        }
+        axis.clinicalAttribute = selection.selectedDataSourceOption;
+    } else {
+        const dataType = PLOTS_DATA_TYPES_BY_ALTERATION.get(selection.dataType);
+        if (!dataType) {
+            warnings.push(
+                `${param} has unsupported data type "${selection.dataType}" and was ignored`
+            );
+            return null;
+        }
+        axis.dataType = dataType;
+        if (selection.selectedGeneOption && multiGene) {
+            warnings.push(
+                `${param} plots Entrez gene ${selection.selectedGeneOption}, which can't be matched to a query gene; the first query gene is used`
+            );
+        }
+    }
+    if (selection.logScale === 'true') {
+        axis.logScale = true;
+    }
+    return axis;
+}
+
+/**
+ * Decode the Plots tab coloring, see plotsColoringOption()
+ */
+function parsePlotsColoring(
+    param: string,
+    selection: Record<string, string>,
+    multiGene: boolean,
+    warnings: string[]
+): PlotsColoringInput | null {
+    const option = selection.selectedOption || '';
+    if (option.startsWith('undefined_')) {
+        try {
+            const attribute = JSON.parse(option.slice('undefined_'.length));
+            if (attribute?.clinicalAttributeId) {
+                return { clinicalAttribute: attribute.clinicalAttributeId };
+            }
+        } catch (error) {
+            // Reported below
+        }
+    } else {
+        const gene = option.match(/^(\d+)_undefined$/);
+        if (gene) {
+            if (multiGene) {
+                warnings.push(
+                    `${param} colors by Entrez gene ${gene[1]}, which can't be matched to a query gene; the first query gene is used`
+                );
+            }
+            const by: Array<'mutation' | 'cna'> = [];
+            if (selection.colorByMutationType === 'true') by.push('mutation');
+            if (selection.colorByCopyNumber === 'true') by.push('cna');
+            // Both is the default
+            return by.length === 1 ? { by } : {};
+        }
+    }
+    warnings.push(
+        `${param} has unsupported option "${option}" and was ignored`
+    );
+    return null;
+}
+
+/**
+ * Decode the Plots tab selections of a Results View URL
+ * Returns undefined when the URL has none or they can't be used
+ */
+function parsePlotsSelections(
+    query: URLSearchParams,
+    singleStudy: boolean,
+    multiGene: boolean,
+    warnings: string[]
+): PlotsInput | undefined {
+    const horzSelection = readPlotsParam(
+        query,
+        'plots_horz_selection',
+        warnings
+    );
+    const vertSelection = readPlotsParam(
+        query,
+        'plots_vert_selection',
+        warnings
+    );
+    const coloringSelection = readPlotsParam(
+        query,
+        'plots_coloring_selection',
+        warnings
+    );
+    if (!horzSelection && !vertSelection && !coloringSelection) {
+        return undefined;
+    }
+    if (!singleStudy) {
+        warnings.push(
+            'Plots tab selections of a multi-study query are not supported and were ignored'
+        );
+        return undefined;
+    }
+    if (!horzSelection || !vertSelection) {
+        warnings.push(
+            'Plots tab selections need both axes (plots_horz_selection and plots_vert_selection) and were ignored'
+        );
+        return undefined;
+    }
+
+    const horizontal = parsePlotsAxis(
+        'plots_horz_selection',
+        horzSelection,
+        multiGene,
+        warnings
+    );
+    const vertical = parsePlotsAxis(
+        'plots_vert_selection',
+        vertSelection,
+        multiGene,
+        warnings
+    );
+    if (!horizontal || !vertical) {
+        return undefined;
+    }
+    const plots: PlotsInput = { horizontal, vertical };
+    if (coloringSelection) {
+        const coloring = parsePlotsColoring(
+            'plots_coloring_selection',
+            coloringSelection,
+            multiGene,
+            warnings
+        );
+        if (coloring) plots.coloring = coloring;
+    }
+    return plots;
+}
+
+/**
+ * Parse a Results View URL
+ */
+function parseResultsUrl(
+    tab: string | undefined,
+    query: URLSearchParams,
+    warnings: string[]
+): ResolveAndBuildUrlInput['parameters'] {
+    const studyIds = (
+        query.get('cancer_study_list') ||
+        query.get('cancer_study_id') ||
+        ''
+    )
+        .split(',')
+        .filter(Boolean);
+    query.delete('cancer_study_list');
+    query.delete('cancer_study_id');
+
+    if (studyIds.length === 0) {
+        throw new UrlParseError(
+            'Results View URL has no "cancer_study_list" parameter'
+        );
+    }
+
+    const parameters: ResolveAndBuildUrlInput['parameters'] =
+        studyIds.length === 1
+            ? { studyId: studyIds[0] }
+            : { studyIds: studyIds };
+    if (tab) parameters.tab = tab;
+
+    // Genes: a plain list, or OQL when any gene carries alterations
+    const geneList = decodeTwice(query.get('gene_list') || '').trim();
+    query.delete('gene_list');
+    let oqlTypes: AlterationType[] = [];
+    let geneCount = 0;
+    if (geneList) {
+        try {
+            const oqlQueries = parseOql(geneList.replace(/,/g, ' '));
+            geneCount = oqlQueries.length;
+            if (oqlQueries.every((q) => !q.alterations?.length)) {
+                parameters.genes = oqlQueries.map((q) => q.gene);
+            } else {
+                parameters.oql = geneList;
+                oqlTypes = getRequiredAlterationTypes(oqlQueries);
+            }
+        } catch (error) {
+            warnings.push(
+                `gene_list is not valid OQL and was kept as-is: ${
+                    error instanceof Error ? error.message : error
+                }`
+            );
+            parameters.oql = geneList;
+            geneCount = geneList.split(/\s+/).length;
+        }
+    }
+
+    // Case selection: "all" is implied for multi-study queries
+    const caseSetId = query.get('case_set_id');
+    query.delete('case_set_id');
+    if (caseSetId && caseSetId !== 'all' && caseSetId !== '-1') {
+        parameters.caseSetId = caseSetId;
+    }
+
+    // Alteration types from the selected profiles
+    const alterations = new Set<AlterationType>();
+    for (const [param, type] of PROFILE_PARAM_TYPES) {
+        if (query.has(param)) {
+            alterations.add(type);
+            query.delete(param);
+        }
+    }
+    const profileFilter = query.get('profileFilter');
+    query.delete('profileFilter');
+    if (profileFilter && !/^\d+$/.test(profileFilter)) {
+        for (const suffix of profileFilter.split(',')) {
+            const type = alterationTypeForSuffix(suffix);
+            if (type) alterations.add(type);
+        }
+    }
+    const dataPriority = query.get('data_priority');
+    query.delete('data_priority');
+    if (dataPriority === '0' || dataPriority === '1') {
+        alterations.add('mutation');
+    }
+    if (dataPriority === '0' || dataPriority === '2') {
+        alterations.add('cna');
+    }
+
+    // Types implied by the OQL are re-derived when the URL is rebuilt
+    for (const type of oqlTypes) {
+        alterations.delete(type);
+    }
+    if (alterations.size > 0) {
+        parameters.alterations = Array.from(alterations);
+    }
+
+    const plots = parsePlotsSelections(
+        query,
+        studyIds.length === 1,
+        geneCount > 1,
+        warnings
+    );
+    if (plots) parameters.plots = plots;
+
+    // Parameters the portal adds itself carry no user intent
+    query.delete('Action');
+    query.delete('tab_index');
+
+    return parameters;
+}
+
+/**
+ * Parse a cBioPortal Study, Patient or Results View URL
+ * Throws UrlParseError for URLs that are not cBioPortal page URLs
+ */
+export function parseCBioPortalUrl(url: string): ParsedCBioPortalUrl {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch (error) {
+        throw new UrlParseError(`Not a valid URL: "${url}"`);
+    }
+
+    const warnings: string[] = [];
+    const result: Partial<ParsedCBioPortalUrl> = {};
+    const query = new URLSearchParams(parsed.search);
+    const hash = parseHash(parsed.hash);
+
+    // Path is /<page> or /<page>/<tab>, possibly below a context path
+    const segments = parsed.pathname.split('/').filter(Boolean);
+    const pageIndex = segments.findIndex((s) =>
+        ['study', 'patient', 'results'].includes(s)
+    );
+    if (pageIndex === -1) {
+        throw new UrlParseError(
+            `Unsupported cBioPortal page: "${parsed.pathname}" (expected /study, /patient or /results)`
+        );
+    }
+    const page = segments[pageIndex] as ResolveAndBuildUrlInput['targetPage'];
+    const tab = segments[pageIndex + 1];
+
+    let parameters: ResolveAndBuildUrlInput['parameters'];
+    switch (page) {
+        case 'study':
+            parameters = parseStudyUrl(tab, query, hash, warnings);
+            break;
+        case 'patient':
+            parameters = parsePatientUrl(tab, query, hash, result);
+            break;
+        case 'results':
+            parameters = parseResultsUrl(tab, query, warnings);
+            break;
+    }
+
+    const host =
+        parsed.host +
+        segments
+            .slice(0, pageIndex)
+            .map((s) => `/${s}`)
+            .join('');
+    const portal = findPortalByHost(host);
+    if (!portal) {
+        warnings.push(
+            `URL points at ${host}, which is not a configured portal; rebuilt links will point at ${getCurrentPortal().baseUrl}`
+        );
+    }
+
+    const unrecognizedParams = Object.fromEntries(query.entries());
+
+    return {
+        input: { portal: portal?.name, targetPage: page, parameters },
+        host,
+        navCaseIds: result.navCaseIds,
+        unrecognizedParams:
+            Object.keys(unrecognizedParams).length > 0
+                ? unrecognizedParams
+                : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
+    };
+}
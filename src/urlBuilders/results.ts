@@ -4,9 +4,103 @@
 
 import { buildCBioPortalPageUrl, QueryParams } from './core.js';
 
+/**
+ * Molecular profile IDs to query, keyed by data type
+ */
+export interface GeneticProfileIds {
+    mutation?: string;
+    cna?: string;
+    mrna?: string;
+    protein?: string;
+    methylation?: string;
+}
+
+/**
+ * URL parameter for each data type's profile
+ */
+export const GENETIC_PROFILE_PARAMS: Record<keyof GeneticProfileIds, string> = {
+    mutation: 'genetic_profile_ids_PROFILE_MUTATION_EXTENDED',
+    cna: 'genetic_profile_ids_PROFILE_COPY_NUMBER_ALTERATION',
+    mrna: 'genetic_profile_ids_PROFILE_MRNA_EXPRESSION',
+    protein: 'genetic_profile_ids_PROFILE_PROTEIN_EXPRESSION',
+    methylation: 'genetic_profile_ids_PROFILE_METHYLATION',
+};
+
+/**
+ * Which of mutation and CNA data drive the query
+ * 0 = both, 1 = mutation only, 2 = CNA only
+ */
+export type DataPriority = 0 | 1 | 2;
+
+/**
+ * Data type of a Plots axis backed by a clinical attribute
+ * (molecular axes use the profile's molecularAlterationType instead)
+ */
+export const CLINICAL_ATTRIBUTE_DATA_TYPE = 'clinical_attribute';
+
+/**
+ * One axis of the Plots tab
+ */
+export interface PlotsAxisSelection {
+    // Molecular alteration type (e.g. "MRNA_EXPRESSION") or CLINICAL_ATTRIBUTE_DATA_TYPE
+    dataType: string;
+    // Molecular profile ID or clinical attribute ID
+    selectedDataSourceOption: string;
+    // Entrez gene ID, for molecular axes
+    selectedGeneOption?: number;
+    // How mutation axes are split
+    mutationCountBy?: 'MutationType' | 'MutatedVsWildType';
+    logScale?: boolean;
+}
+
+/**
+ * Point coloring of the Plots tab
+ */
+export interface PlotsColoringSelection {
+    // Gene or clinical attribute to color by, see plotsColoringOption()
+    selectedOption: string;
+    colorByMutationType?: boolean;
+    colorByCopyNumber?: boolean;
+    logScale?: boolean;
+}
+
+/**
+ * Encode the coloring option the way the Plots tab identifies it:
+ * "<entrezGeneId>_<clinical attribute JSON>", with "undefined" for the unused half
+ */
+export function plotsColoringOption(
+    coloring:
+        | { entrezGeneId: number }
+        | {
+              clinicalAttributeId: string;
+              patientAttribute: boolean;
+              studyId: string;
+          }
+): string {
+    if ('entrezGeneId' in coloring) {
+        return `${coloring.entrezGeneId}_undefined`;
+    }
+    return `undefined_${JSON.stringify(coloring)}`;
+}
+
+/**
+ * The Plots tab reads every selection field as a string
+ */
+function serializePlotsSelection(
+    selection: PlotsAxisSelection | PlotsColoringSelection
+): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(selection)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, String(value)])
+    );
+}
+
 export interface ResultsUrlOptions {
     studies: string[];
     genes: string[];
+    // Full OQL query; used as gene_list instead of the plain genes when set
+    oql?: string;
     caseSelection: {
         type: 'all' | 'case_set' | 'custom';
         caseSetId?: string;
@@ -14,6 +108,9 @@ export interface ResultsUrlOptions {
     };
     tab?: string;
     options?: {
+        // Single-study profile selection; multi-study queries use profileFilter
+        geneticProfileIds?: GeneticProfileIds;
+        dataPriority?: DataPriority;
         zScoreThreshold?: number;
         rppaScoreThreshold?: number;
         profileFilter?: string;
@@ -25,9 +122,9 @@ export interface ResultsUrlOptions {
         sortByMutationType?: boolean;
         sortByDrivers?: boolean;
         // Plots options
-        plotsHorzSelection?: Record<string, any>;
-        plotsVertSelection?: Record<string, any>;
-        plotsColoringSelection?: Record<string, any>;
+        plotsHorzSelection?: PlotsAxisSelection;
+        plotsVertSelection?: PlotsAxisSelection;
+        plotsColoringSelection?: PlotsColoringSelection;
         // Generic
         genericAssayGroups?: string;
         genesetList?: string;
@@ -39,11 +136,18 @@ export interface ResultsUrlOptions {
  * Build a Results View URL
  */
 export function buildResultsUrl(options: ResultsUrlOptions): string {
-    const { studies, genes, caseSelection, tab, options: urlOptions } = options;
+    const {
+        studies,
+        genes,
+        oql,
+        caseSelection,
+        tab,
+        options: urlOptions,
+    } = options;
 
     const query: QueryParams = {
         cancer_study_list: studies.join(','),
-        gene_list: genes.join(' '),
+        gene_list: oql || genes.join(' '),
     };
 
     // Handle case selection
@@ -51,11 +155,29 @@ export function buildResultsUrl(options: ResultsUrlOptions): string {
         query.case_set_id = caseSelection.caseSetId;
     } else if (caseSelection.type === 'custom' && caseSelection.caseIds) {
         query.case_ids = caseSelection.caseIds.join(',');
+    } else if (caseSelection.type === 'all') {
+        // "all" selects every sample across the listed studies
+        query.case_set_id = 'all';
     }
-    // For 'all', we typically use case_set_id with the "all" case set
 
     // Add optional parameters
     if (urlOptions) {
+        if (urlOptions.geneticProfileIds) {
+            for (const [type, param] of Object.entries(
+                GENETIC_PROFILE_PARAMS
+            )) {
+                const profileId =
+                    urlOptions.geneticProfileIds[
+                        type as keyof GeneticProfileIds
+                    ];
+                if (profileId) {
+                    query[param] = profileId;
+                }
+            }
+        }
+        if (urlOptions.dataPriority !== undefined) {
+            query.data_priority = urlOptions.dataPriority;
+        }
         if (urlOptions.zScoreThreshold !== undefined) {
             query.Z_SCORE_THRESHOLD = urlOptions.zScoreThreshold;
         }
@@ -86,13 +208,19 @@ export function buildResultsUrl(options: ResultsUrlOptions): string {
             query.oncoprint_sort_by_drivers = urlOptions.sortByDrivers;
         }
         if (urlOptions.plotsHorzSelection) {
-            query.plots_horz_selection = urlOptions.plotsHorzSelection;
+            query.plots_horz_selection = serializePlotsSelection(
+                urlOptions.plotsHorzSelection
+            );
         }
         if (urlOptions.plotsVertSelection) {
-            query.plots_vert_selection = urlOptions.plotsVertSelection;
+            query.plots_vert_selection = serializePlotsSelection(
+                urlOptions.plotsVertSelection
+            );
         }
         if (urlOptions.plotsColoringSelection) {
-            query.plots_coloring_selection = urlOptions.plotsColoringSelection;
+            query.plots_coloring_selection = serializePlotsSelection(
+                urlOptions.plotsColoringSelection
+            );
         }
         if (urlOptions.genericAssayGroups) {
             query.generic_assay_groups = urlOptions.genericAssayGroups;
@@ -107,6 +235,8 @@ export function buildResultsUrl(options: ResultsUrlOptions): string {
                 value !== undefined &&
                 !query.hasOwnProperty(key) &&
                 ![
+                    'geneticProfileIds',
+                    'dataPriority',
                     'zScoreThreshold',
                     'rppaScoreThreshold',
                     'profileFilter',
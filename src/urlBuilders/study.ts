@@ -4,10 +4,96 @@
 
 import { buildCBioPortalPageUrl, QueryParams } from './core.js';
 
+/**
+ * A single clinical filter value: either a categorical value
+ * or a numeric range (start exclusive, end inclusive)
+ */
+export interface DataFilterValue {
+    value?: string;
+    start?: number;
+    end?: number;
+}
+
+export interface ClinicalDataFilter {
+    attributeId: string;
+    values: DataFilterValue[];
+}
+
+export interface GeneFilterQuery {
+    hugoGeneSymbol: string;
+    entrezGeneId: number;
+    alterations: string[];
+    includeDriver: boolean;
+    includeVUS: boolean;
+    includeUnknownOncogenicity: boolean;
+    tiersBooleanMap: Record<string, boolean>;
+    includeUnknownTier: boolean;
+    includeGermline: boolean;
+    includeSomatic: boolean;
+    includeUnknownStatus: boolean;
+}
+
+export interface GeneFilter {
+    molecularProfileIds: string[];
+    // Outer array is AND, inner array is OR
+    geneQueries: GeneFilterQuery[][];
+}
+
+export interface SampleIdentifier {
+    sampleId: string;
+    studyId: string;
+}
+
+/**
+ * Subset of cBioPortal's StudyViewFilter understood by the Study View page
+ */
+export interface StudyViewFilter {
+    studyIds?: string[];
+    clinicalDataFilters?: ClinicalDataFilter[];
+    geneFilters?: GeneFilter[];
+    // Outer array is AND, inner array is OR
+    caseLists?: string[][];
+    sampleIdentifiers?: SampleIdentifier[];
+}
+
 export interface StudyUrlOptions {
     studyIds: string | string[];
     tab?: string;
-    filters?: Record<string, any>;
+    filters?: StudyViewFilter;
+}
+
+/**
+ * Check whether a filter actually restricts anything
+ */
+export function isEmptyStudyViewFilter(filter: StudyViewFilter): boolean {
+    return (
+        !filter.clinicalDataFilters?.length &&
+        !filter.geneFilters?.length &&
+        !filter.caseLists?.length &&
+        !filter.sampleIdentifiers?.length
+    );
+}
+
+/**
+ * Serialize a StudyViewFilter into the filterJson format
+ */
+export function serializeStudyViewFilter(filter: StudyViewFilter): string {
+    const json: StudyViewFilter = {};
+
+    if (filter.clinicalDataFilters?.length) {
+        json.clinicalDataFilters = filter.clinicalDataFilters;
+    }
+    if (filter.geneFilters?.length) {
+        json.geneFilters = filter.geneFilters;
+    }
+    if (filter.caseLists?.length) {
+        json.caseLists = filter.caseLists;
+    }
+    if (filter.sampleIdentifiers?.length) {
+        json.sampleIdentifiers = filter.sampleIdentifiers;
+    }
+
+    return JSON.stringify(json);
 }
 
 /**
@@ -21,15 +107,18 @@ export function buildStudyUrl(options: StudyUrlOptions): string {
         id: studyIdArray.join(','),
     };
 
-    // Add filters if provided
-    if (filters) {
-        Object.assign(query, filters);
+    // Filters go in the hash so long filter sets don't hit URL length limits
+    let hash: string | undefined;
+    if (filters && !isEmptyStudyViewFilter(filters)) {
+        hash = `filterJson=${encodeURIComponent(
+            serializeStudyViewFilter(filters)
+        )}`;
     }
 
     // Build pathname with tab if specified
     const pathname = tab ? `/study/${tab}` : '/study';
 
-    return buildCBioPortalPageUrl(pathname, query);
+    return buildCBioPortalPageUrl(pathname, query, hash);
 }
 
 /**
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SimpleCache } from '../src/api/cache.js';
+import {
+    FileCacheBackend,
+    MemoryCacheBackend,
+} from '../src/api/cacheBackends.js';
+import { runWithForwardedToken } from '../src/config/credentials.js';
+
+// Cache per user, as for a portal serving private studies
+process.env.CBIOPORTAL_FORWARD_TOKEN = 'true';
+
+function newCache() {
+    return new SimpleCache<string>(30, {
+        name: 'test',
+        backend: new MemoryCacheBackend(),
+    });
+}
+
+describe('SimpleCache', () => {
+    it('keeps a separate copy per forwarded token', () => {
+        const cache = newCache();
+        cache.set('studies:all', 'shared');
+        runWithForwardedToken('alice', () => cache.set('studies:all', 'a'));
+
+        assert.equal(cache.get('studies:all'), 'shared');
+        assert.equal(
+            runWithForwardedToken('alice', () => cache.get('studies:all')),
+            'a'
+        );
+        assert.equal(
+            runWithForwardedToken('bob', () => cache.get('studies:all')),
+            null
+        );
+    });
+
+    it('purges a key for every identity', () => {
+        const cache = newCache();
+        cache.set('studies:all', 'shared');
+        cache.set('all', 'other key');
+        for (const token of ['alice', 'bob']) {
+            runWithForwardedToken(token, () => {
+                cache.set('studies:all', token);
+                cache.set('validate:luad_broad', 'kept');
+            });
+        }
+
+        assert.equal(cache.purge('studies:all'), 3);
+        assert.equal(cache.get('studies:all'), null);
+        assert.equal(
+            runWithForwardedToken('bob', () => cache.get('studies:all')),
+            null
+        );
+        assert.equal(
+            runWithForwardedToken('bob', () =>
+                cache.get('validate:luad_broad')
+            ),
+            'kept'
+        );
+        assert.equal(cache.get('all'), 'other key');
+        assert.equal(cache.purge('studies:all'), 0);
+    });
+});
+
+describe('FileCacheBackend', () => {
+    it('reloads the entries it flushed', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+        const file = path.join(dir, 'studies.json');
+        try {
+            const backend = new FileCacheBackend<string>(file, 60 * 1000);
+            const now = Date.now();
+            backend.set('a', { value: 'first', timestamp: now });
+            backend.set('b', { value: 'second', timestamp: now });
+            await backend.flush();
+
+            assert.equal(fs.existsSync(`${file}.tmp`), false);
+            const reloaded = new FileCacheBackend<string>(file, 60 * 1000);
+            assert.deepEqual(reloaded.keys(), ['a', 'b']);
+            assert.equal(reloaded.get('b')?.value, 'second');
+
+            backend.clear();
+            await backend.flush();
+            assert.equal(
+                new FileCacheBackend<string>(file, 60 * 1000).size(),
+                0
+            );
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,29 @@
+/**
+ * Shared test setup: serve the cBioPortal API from test/fixtures
+ */
+
+import { fileURLToPath } from 'node:url';
+import { apiClient } from '../src/api/client.js';
+import { caches } from '../src/api/cache.js';
+import { FixtureApi } from '../src/api/fixtures.js';
+
+// Keep test output readable; failures are reported by the assertions
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+export const FIXTURES_DIR = fileURLToPath(
+    new URL('./fixtures', import.meta.url)
+);
+
+/**
+ * Point the API client at the fixtures, with empty caches
+ */
+export function useFixtures() {
+    apiClient.setApiFactory(() => new FixtureApi(FIXTURES_DIR));
+    clearCaches();
+}
+
+export function clearCaches() {
+    for (const cache of Object.values(caches)) {
+        cache.clear();
+    }
+}
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCBioPortalUrl } from '../src/urlBuilders/parse.js';
+import {
+    buildResultsUrl,
+    plotsColoringOption,
+} from '../src/urlBuilders/results.js';
+
+const LUAD = 'luad_tcga_pan_can_atlas_2018';
+
+describe('parseCBioPortalUrl', () => {
+    it('decodes the double-encoded gene list of portal links', () => {
+        const { input, warnings } = parseCBioPortalUrl(
+            `https://www.cbioportal.org/results/oncoprint?cancer_study_list=${LUAD}&case_set_id=${LUAD}_sequenced&gene_list=EGFR%2520KRAS&geneset_list=%20&tab_index=tab_visualize&Action=Submit&genetic_profile_ids_PROFILE_MUTATION_EXTENDED=${LUAD}_mutations`
+        );
+        assert.equal(warnings, undefined);
+        assert.deepEqual(input.parameters.genes, ['EGFR', 'KRAS']);
+        assert.equal(input.parameters.oql, undefined);
+        assert.deepEqual(input.parameters.alterations, ['mutation']);
+    });
+
+    it('decodes double-encoded OQL with line breaks', () => {
+        const { input, warnings } = parseCBioPortalUrl(
+            `https://www.cbioportal.org/results/oncoprint?cancer_study_list=${LUAD}&case_set_id=${LUAD}_cnaseq&gene_list=KRAS%253A%2520MUT%253DG12%250AEGFR%253A%2520AMP&tab_index=tab_visualize&Action=Submit`
+        );
+        assert.equal(warnings, undefined);
+        assert.equal(input.parameters.oql, 'KRAS: MUT=G12\nEGFR: AMP');
+    });
+
+    it('reads back the links buildResultsUrl builds', () => {
+        const { input } = parseCBioPortalUrl(
+            buildResultsUrl({
+                studies: [LUAD],
+                genes: ['TP53', 'KRAS'],
+                caseSelection: { type: 'case_set', caseSetId: `${LUAD}_all` },
+            })
+        );
+        assert.deepEqual(input.parameters, {
+            studyId: LUAD,
+            genes: ['TP53', 'KRAS'],
+            caseSetId: `${LUAD}_all`,
+        });
+    });
+
+    it('reads back the Plots tab selections', () => {
+        const { input, unrecognizedParams, warnings } = parseCBioPortalUrl(
+            buildResultsUrl({
+                studies: [LUAD],
+                genes: ['TP53'],
+                caseSelection: { type: 'all' },
+                tab: 'plots',
+                options: {
+                    plotsHorzSelection: {
+                        dataType: 'MRNA_EXPRESSION',
+                        selectedDataSourceOption: `${LUAD}_rna_seq_v2_mrna`,
+                        selectedGeneOption: 7157,
+                        logScale: true,
+                    },
+                    plotsVertSelection: {
+                        dataType: 'clinical_attribute',
+                        selectedDataSourceOption: 'FRACTION_GENOME_ALTERED',
+                    },
+                    plotsColoringSelection: {
+                        selectedOption: plotsColoringOption({
+                            entrezGeneId: 7157,
+                        }),
+                        colorByMutationType: true,
+                        colorByCopyNumber: false,
+                    },
+                },
+            })
+        );
+        assert.equal(warnings, undefined);
+        assert.equal(unrecognizedParams, undefined);
+        assert.deepEqual(input.parameters.plots, {
+            horizontal: { dataType: 'mrna', logScale: true },
+            vertical: { clinicalAttribute: 'FRACTION_GENOME_ALTERED' },
+            coloring: { by: ['mutation'] },
+        });
+    });
+
+    it('warns about Plots tab selections it cannot read back', () => {
+        const horz = encodeURIComponent(
+            JSON.stringify({
+                dataType: 'MRNA_EXPRESSION',
+                selectedDataSourceOption: `${LUAD}_rna_seq_v2_mrna`,
+                selectedGeneOption: '3845',
+            })
+        );
+        const vert = encodeURIComponent(
+            JSON.stringify({
+                dataType: 'GENERIC_ASSAY',
+                selectedDataSourceOption: `${LUAD}_treatment_ic50`,
+            })
+        );
+        const { input, unrecognizedParams, warnings } = parseCBioPortalUrl(
+            `https://www.cbioportal.org/results/plots?cancer_study_list=${LUAD}&case_set_id=all&gene_list=TP53%2520KRAS&plots_horz_selection=${horz}&plots_vert_selection=${vert}&plots_coloring_selection=%7B`
+        );
+        assert.equal(input.parameters.plots, undefined);
+        assert.equal(unrecognizedParams, undefined);
+        assert.deepEqual(warnings, [
+            'plots_coloring_selection is not a valid Plots tab selection and was ignored',
+            "plots_horz_selection plots Entrez gene 3845, which can't be matched to a query gene; the first query gene is used",
+            'plots_vert_selection has unsupported data type "GENERIC_ASSAY" and was ignored',
+        ]);
+    });
+});
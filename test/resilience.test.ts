@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    callWithResilience,
+    runWithAbortSignal,
+} from '../src/api/resilience.js';
+import { RequestAbortedError } from '../src/api/errors.js';
+
+const OPTIONS = { portal: 'test', method: 'getStudy', retry: true };
+
+describe('callWithResilience', () => {
+    it('sends no calls once the request is aborted', async () => {
+        const controller = new AbortController();
+        let calls = 0;
+        const call = () => callWithResilience(async () => ++calls, OPTIONS);
+
+        await runWithAbortSignal(controller.signal, async () => {
+            assert.equal(await call(), 1);
+            controller.abort();
+            await assert.rejects(call(), RequestAbortedError);
+        });
+        assert.equal(calls, 1);
+    });
+});
@@ -0,0 +1,440 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { clearCaches, FIXTURES_DIR, useFixtures } from './helpers.js';
+import { apiClient, type PortalApi } from '../src/api/client.js';
+import type { CancerStudy } from 'cbioportal-ts-api-client';
+import { FixtureApi } from '../src/api/fixtures.js';
+import { createMcpServer } from '../src/server.js';
+import { parseCBioPortalUrl } from '../src/urlBuilders/parse.js';
+
+const LUAD = 'luad_tcga_pan_can_atlas_2018';
+
+let client: Client;
+
+/**
+ * Call resolve_and_build_url through an MCP client, as an assistant would
+ */
+async function resolveAndBuildUrl(args: Record<string, unknown>) {
+    const result = await client.callTool({
+        name: 'resolve_and_build_url',
+        arguments: args,
+    });
+    return {
+        isError: result.isError === true,
+        response: result.structuredContent as Record<string, any>,
+    };
+}
+
+before(async () => {
+    useFixtures();
+    const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+});
+
+after(async () => {
+    await client.close();
+});
+
+describe('study pages', () => {
+    it('opens the only study matching the keywords', async () => {
+        const { isError, response } = await resolveAndBuildUrl({
+            targetPage: 'study',
+            parameters: { studyKeywords: ['breast'] },
+        });
+        assert.equal(isError, false);
+        assert.equal(
+            response.url,
+            'https://www.cbioportal.org/study?id=brca_tcga_pan_can_atlas_2018'
+        );
+    });
+
+    it('asks which study to use when several match', async () => {
+        const { isError, response } = await resolveAndBuildUrl({
+            targetPage: 'study',
+            parameters: { studyKeywords: ['lung'] },
+        });
+        assert.equal(isError, false);
+        assert.equal(response.needsSelection, true);
+        assert.deepEqual(
+            response.options.map((o: { studyId: string }) => o.studyId),
+            [LUAD, 'luad_broad']
+        );
+    });
+
+    it('rejects unknown study IDs', async () => {
+        const { isError, response } = await resolveAndBuildUrl({
+            targetPage: 'study',
+            parameters: { studyId: 'no_such_study' },
+        });
+        assert.equal(isError, true);
+        assert.equal(response.code, 'STUDY_NOT_FOUND');
+    });
+
+    it('applies Study View filters', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'study',
+            parameters: {
+                studyId: LUAD,
+                filters: {
+                    clinical: [{ attribute: 'Sex', values: ['female'] }],
+                },
+            },
+        });
+        assert.equal(response.success, true);
+        assert.deepEqual(response.metadata.appliedFilters, ['SEX = Female']);
+        const filterJson = new URL(response.url).hash.replace(
+            '#filterJson=',
+            ''
+        );
+        assert.deepEqual(JSON.parse(decodeURIComponent(filterJson)), {
+            clinicalDataFilters: [
+                { attributeId: 'SEX', values: [{ value: 'Female' }] },
+            ],
+        });
+    });
+});
+
+describe('parsed URLs', () => {
+    /**
+     * Parse a portal URL and rebuild it from the parsed input
+     */
+    async function roundTrip(url: string) {
+        const { input, warnings } = parseCBioPortalUrl(url);
+        const { response } = await resolveAndBuildUrl({
+            targetPage: input.targetPage,
+            parameters: input.parameters,
+        });
+        return { response, warnings };
+    }
+
+    it('rebuilds a multi-study Study View', async () => {
+        const url = `https://www.cbioportal.org/study/clinicalData?id=${LUAD}%2Cluad_broad`;
+        const { response, warnings } = await roundTrip(url);
+        assert.equal(warnings, undefined);
+        assert.equal(response.success, true);
+        assert.equal(response.url, url);
+        assert.deepEqual(
+            response.metadata.studies.map(
+                (s: { studyName: string }) => s.studyName
+            ),
+            [
+                'Lung Adenocarcinoma (TCGA, PanCancer Atlas)',
+                'Lung Adenocarcinoma (Broad, Cell 2012)',
+            ]
+        );
+    });
+
+    it('rebuilds a filtered single-study Study View', async () => {
+        const { response: built } = await resolveAndBuildUrl({
+            targetPage: 'study',
+            parameters: {
+                studyId: LUAD,
+                filters: { clinical: [{ attribute: 'SEX', values: ['Male'] }] },
+            },
+        });
+        const { response } = await roundTrip(built.url);
+        assert.equal(response.url, built.url);
+    });
+
+    it('drops the filters of a multi-study Study View with a warning', async () => {
+        const { response, warnings } = await roundTrip(
+            `https://www.cbioportal.org/study?id=${LUAD},luad_broad#filterJson=%7B%7D`
+        );
+        assert.equal(warnings.length, 1);
+        assert.equal(response.success, true);
+    });
+
+    it('rejects filters on several studies', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'study',
+            parameters: {
+                studyIds: [LUAD, 'luad_broad'],
+                filters: { clinical: [{ attribute: 'SEX', values: ['Male'] }] },
+            },
+        });
+        assert.equal(response.code, 'INCOMPATIBLE_PARAMETERS');
+    });
+});
+
+describe('results pages', () => {
+    it('maps aliases and picks profiles and the case list for the alterations', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'results',
+            parameters: {
+                studyId: LUAD,
+                genes: ['HER2', 'TP53'],
+                alterations: ['mutation', 'cna'],
+            },
+        });
+        assert.equal(response.success, true);
+        assert.deepEqual(response.metadata.geneSubstitutions, [
+            { input: 'HER2', symbol: 'ERBB2' },
+        ]);
+
+        const params = new URL(response.url).searchParams;
+        assert.equal(params.get('gene_list'), 'ERBB2 TP53');
+        assert.equal(params.get('case_set_id'), `${LUAD}_cnaseq`);
+        assert.equal(
+            params.get('genetic_profile_ids_PROFILE_COPY_NUMBER_ALTERATION'),
+            `${LUAD}_gistic`
+        );
+        assert.equal(params.get('data_priority'), '0');
+    });
+
+    it('passes OQL through as the gene list', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'results',
+            parameters: { studyId: LUAD, oql: 'KRAS: MUT=G12' },
+        });
+        assert.equal(response.success, true);
+        assert.equal(
+            new URL(response.url).searchParams.get('gene_list'),
+            'KRAS: MUT=G12;'
+        );
+        assert.deepEqual(response.metadata.genes, ['KRAS']);
+    });
+
+    it('queries several studies at once', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'results',
+            parameters: { studyIds: [LUAD, 'luad_broad'], genes: ['KRAS'] },
+        });
+        assert.equal(response.success, true);
+        assert.equal(
+            new URL(response.url).searchParams.get('cancer_study_list'),
+            `${LUAD},luad_broad`
+        );
+        assert.equal(response.metadata.totalSampleCount, 7);
+    });
+
+    it('queries every study matching the keywords with useAllMatches', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'results',
+            parameters: {
+                studyKeywords: ['lung'],
+                useAllMatches: true,
+                genes: ['KRAS'],
+            },
+        });
+        assert.equal(response.success, true);
+        assert.deepEqual(response.metadata.studyIds, [LUAD, 'luad_broad']);
+    });
+
+    /**
+     * Serve 41 copies of the first fixture study, each adjusted by copy
+     */
+    function useManyStudies(
+        copy: (study: CancerStudy, i: number) => CancerStudy
+    ) {
+        class ManyStudiesApi extends FixtureApi {
+            async getAllStudiesUsingGET(params: {}) {
+                const [study] = await super.getAllStudiesUsingGET(params);
+                return Array.from({ length: 41 }, (_, i) => copy(study, i));
+            }
+        }
+        clearCaches();
+        apiClient.setApiFactory(() => new ManyStudiesApi(FIXTURES_DIR));
+    }
+
+    it('asks for a selection when too many studies match', async () => {
+        useManyStudies((study, i) => ({ ...study, studyId: `luad_${i}` }));
+        try {
+            const { response } = await resolveAndBuildUrl({
+                targetPage: 'results',
+                parameters: {
+                    studyKeywords: ['lung'],
+                    useAllMatches: true,
+                    genes: ['KRAS'],
+                },
+            });
+            assert.equal(response.needsSelection, true);
+            assert.equal(response.context.totalMatches, 41);
+            assert.equal(response.options.length, 10);
+        } finally {
+            useFixtures();
+        }
+    });
+
+    it('does not narrow too many matches to a clear winner', async () => {
+        // Only the first study mentions the keyword outside its description
+        useManyStudies((study, i) =>
+            i === 0
+                ? { ...study, studyId: 'lung_msk', name: 'Lung Cancer (MSK)' }
+                : {
+                      ...study,
+                      studyId: `luad_${i}`,
+                      name: 'Adenocarcinoma',
+                      cancerType: {
+                          ...study.cancerType,
+                          name: 'Adenocarcinoma',
+                      },
+                  }
+        );
+        try {
+            const { response } = await resolveAndBuildUrl({
+                targetPage: 'results',
+                parameters: {
+                    studyKeywords: ['lung'],
+                    useAllMatches: true,
+                    genes: ['KRAS'],
+                },
+            });
+            assert.equal(response.needsSelection, true);
+            assert.match(response.message, /more than the 40/);
+            const [top, next] = response.options;
+            assert.equal(top.studyId, 'lung_msk');
+            assert.ok(top.score >= next.score * 1.5);
+        } finally {
+            useFixtures();
+        }
+    });
+
+    it('reports genes that could not be resolved', async () => {
+        const { isError, response } = await resolveAndBuildUrl({
+            targetPage: 'results',
+            parameters: { studyId: LUAD, genes: ['NOTAGENE'] },
+        });
+        assert.equal(isError, true);
+        assert.equal(response.code, 'NO_VALID_GENES');
+        assert.deepEqual(response.details.providedGenes, ['NOTAGENE']);
+    });
+
+    it('requires genes', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'results',
+            parameters: { studyId: LUAD },
+        });
+        assert.equal(response.code, 'MISSING_PARAMETER');
+    });
+});
+
+describe('patient pages', () => {
+    it('opens a patient with their samples', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'patient',
+            parameters: { studyId: LUAD, patientId: 'TCGA-05-4244' },
+        });
+        assert.equal(
+            response.url,
+            `https://www.cbioportal.org/patient?studyId=${LUAD}&caseId=TCGA-05-4244`
+        );
+        assert.deepEqual(response.metadata.sampleIds, [
+            'TCGA-05-4244-01',
+            'TCGA-05-4244-06',
+        ]);
+    });
+});
+
+describe('comparison pages', () => {
+    it('stores the groups and links to the session', async () => {
+        const { response } = await resolveAndBuildUrl({
+            targetPage: 'comparison',
+            parameters: {
+                studyId: LUAD,
+                groups: [
+                    {
+                        name: 'Female',
+                        clinical: [{ attribute: 'SEX', values: ['Female'] }],
+                    },
+                    {
+                        name: 'Male',
+                        clinical: [{ attribute: 'SEX', values: ['Male'] }],
+                    },
+                ],
+            },
+        });
+        assert.equal(response.success, true);
+        assert.match(response.metadata.comparisonId, /^[0-9a-f]{24}$/);
+        assert.equal(
+            response.url,
+            `https://www.cbioportal.org/comparison?comparisonId=${response.metadata.comparisonId}`
+        );
+        assert.deepEqual(
+            response.metadata.groups.map(
+                (g: { name: string; sampleCount: number }) => [
+                    g.name,
+                    g.sampleCount,
+                ]
+            ),
+            [
+                ['Female', 2],
+                ['Male', 3],
+            ]
+        );
+    });
+
+    it('rejects a tab the comparison page does not have', async () => {
+        const { isError, response } = await resolveAndBuildUrl({
+            targetPage: 'comparison',
+            parameters: {
+                studyId: LUAD,
+                tab: 'oncoprint',
+                groups: [
+                    { name: 'Female', studyId: LUAD },
+                    { name: 'Male', studyId: LUAD },
+                ],
+            },
+        });
+        assert.equal(isError, true);
+        assert.equal(response.code, 'UNKNOWN_TAB');
+        assert.match(response.error, /"oncoprint" \(use overlap, survival/);
+    });
+});
+
+describe('tool inputs', () => {
+    it('lets every tool choose among the configured portals', async () => {
+        const { tools } = await client.listTools();
+        assert.ok(tools.length > 1);
+        for (const tool of tools) {
+            const properties = tool.inputSchema.properties as Record<
+                string,
+                { description?: string }
+            >;
+            assert.match(
+                properties.portal?.description ?? '',
+                /"default": https:\/\/www\.cbioportal\.org/,
+                tool.name
+            );
+        }
+    });
+});
+
+describe('upstream failures', () => {
+    after(() => useFixtures());
+
+    it('reports an unreachable portal', async () => {
+        const retries = process.env.CBIOPORTAL_API_RETRIES;
+        process.env.CBIOPORTAL_API_RETRIES = '0';
+        clearCaches();
+        apiClient.setApiFactory(
+            () =>
+                ({
+                    getStudyUsingGET: async () => {
+                        throw Object.assign(new Error('connect refused'), {
+                            code: 'ECONNREFUSED',
+                        });
+                    },
+                }) as unknown as PortalApi
+        );
+
+        try {
+            const { isError, response } = await resolveAndBuildUrl({
+                targetPage: 'study',
+                parameters: { studyId: LUAD },
+            });
+            assert.equal(isError, true);
+            assert.equal(response.code, 'UPSTREAM_UNAVAILABLE');
+        } finally {
+            if (retries === undefined) {
+                delete process.env.CBIOPORTAL_API_RETRIES;
+            } else {
+                process.env.CBIOPORTAL_API_RETRIES = retries;
+            }
+        }
+    });
+});
@@ -0,0 +1,227 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearCaches, useFixtures } from './helpers.js';
+import { apiClient, type PortalApi } from '../src/api/client.js';
+import { CbioportalUnavailableError } from '../src/api/errors.js';
+import { caseListResolver } from '../src/resolution/caseListResolver.js';
+import { geneResolver } from '../src/resolution/geneResolver.js';
+import { patientResolver } from '../src/resolution/patientResolver.js';
+import { profileResolver } from '../src/resolution/profileResolver.js';
+import { studyFilterResolver } from '../src/resolution/studyFilterResolver.js';
+import { studyResolver } from '../src/resolution/studyResolver.js';
+
+const LUAD = 'luad_tcga_pan_can_atlas_2018';
+
+before(() => useFixtures());
+
+describe('studyResolver', () => {
+    it('ranks studies matching every keyword', async () => {
+        const studies = await studyResolver.search(['breast']);
+        assert.deepEqual(
+            studies.map((s) => s.studyId),
+            ['brca_tcga_pan_can_atlas_2018']
+        );
+    });
+
+    it('finds several studies for a shared keyword', async () => {
+        const studies = await studyResolver.search(['lung', 'adenocarcinoma']);
+        assert.deepEqual(studies.map((s) => s.studyId).sort(), [
+            'luad_broad',
+            LUAD,
+        ]);
+    });
+
+    it('validates study IDs', async () => {
+        assert.equal(await studyResolver.validate(LUAD), true);
+        assert.equal(await studyResolver.validate('no_such_study'), false);
+    });
+
+    it('returns study details', async () => {
+        const study = await studyResolver.getById('luad_broad');
+        assert.equal(study.cancerType, 'Lung Adenocarcinoma');
+        assert.equal(study.allSampleCount, 2);
+    });
+});
+
+describe('geneResolver', () => {
+    it('matches official symbols case-insensitively', async () => {
+        const resolution = await geneResolver.resolve('tp53');
+        assert.equal(resolution.symbol, 'TP53');
+        assert.equal(resolution.matchType, 'exact');
+    });
+
+    it('resolves aliases to official symbols', async () => {
+        const her2 = await geneResolver.resolve('HER2');
+        assert.equal(her2.symbol, 'ERBB2');
+        assert.equal(her2.matchType, 'alias');
+
+        const pdl1 = await geneResolver.resolve('PD-L1');
+        assert.equal(pdl1.symbol, 'CD274');
+    });
+
+    it('suggests symbols for typos', async () => {
+        const resolution = await geneResolver.resolve('TP35');
+        assert.equal(resolution.symbol, undefined);
+        assert.ok(resolution.suggestions?.includes('TP53'));
+    });
+
+    it('resolves a batch without duplicates', async () => {
+        const batch = await geneResolver.resolveBatch([
+            'TP53',
+            'p53',
+            'HER2',
+            'NOTAGENE',
+        ]);
+        assert.deepEqual(batch.symbols, ['TP53', 'ERBB2']);
+        assert.deepEqual(
+            batch.unresolved.map((r) => r.input),
+            ['NOTAGENE']
+        );
+    });
+});
+
+describe('profileResolver', () => {
+    it('picks the profile for an alteration type', async () => {
+        const mutation = await profileResolver.getForStudy(LUAD, 'mutation');
+        assert.equal(mutation?.molecularProfileId, `${LUAD}_mutations`);
+
+        const cna = await profileResolver.getForStudy(LUAD, 'cna');
+        assert.equal(cna?.molecularProfileId, `${LUAD}_gistic`);
+    });
+
+    it('returns null when the study lacks the data type', async () => {
+        assert.equal(
+            await profileResolver.getForStudy(LUAD, 'methylation'),
+            null
+        );
+    });
+});
+
+describe('caseListResolver', () => {
+    it('defaults to the list covering the requested data types', async () => {
+        const resolution = await caseListResolver.resolve(LUAD, undefined, [
+            'mutation',
+            'cna',
+        ]);
+        assert.ok('caseList' in resolution);
+        assert.equal(resolution.caseList.caseSetId, `${LUAD}_cnaseq`);
+    });
+
+    it('matches a list by suffix', async () => {
+        const resolution = await caseListResolver.resolve(LUAD, 'sequenced');
+        assert.ok('caseList' in resolution);
+        assert.equal(resolution.caseList.caseSetId, `${LUAD}_sequenced`);
+    });
+
+    it('reports unknown lists with the available ones', async () => {
+        const resolution = await caseListResolver.resolve(LUAD, 'rppa');
+        assert.ok('error' in resolution);
+        assert.equal(resolution.available.length, 3);
+    });
+});
+
+describe('patientResolver', () => {
+    it('matches a partial patient ID within a study', async () => {
+        const resolution = await patientResolver.resolveInStudy(LUAD, {
+            patientId: 'TCGA-05-4244',
+        });
+        assert.ok('match' in resolution);
+        assert.deepEqual(resolution.match.sampleIds, [
+            'TCGA-05-4244-01',
+            'TCGA-05-4244-06',
+        ]);
+    });
+
+    it('finds the study of a patient', async () => {
+        const resolution = await patientResolver.findAcrossStudies({
+            patientId: 'LUAD-B00416',
+        });
+        assert.ok('match' in resolution);
+        assert.equal(resolution.match.studyId, 'luad_broad');
+        assert.deepEqual(resolution.match.sampleIds, ['LUAD-B00416']);
+    });
+
+    it('reports ambiguous prefixes', async () => {
+        const resolution = await patientResolver.resolveInStudy(LUAD, {
+            patientId: 'TCGA-05',
+        });
+        assert.ok('ambiguous' in resolution);
+        assert.equal(resolution.ambiguous.length, 4);
+    });
+});
+
+describe('studyFilterResolver', () => {
+    it('compiles clinical and gene filters', async () => {
+        const { filter, applied, errors } = await studyFilterResolver.resolve(
+            LUAD,
+            {
+                clinical: [{ attribute: 'Sex', values: ['female'] }],
+                genes: [{ gene: 'TP53' }],
+            }
+        );
+        assert.deepEqual(errors, []);
+        assert.deepEqual(filter.clinicalDataFilters, [
+            { attributeId: 'SEX', values: [{ value: 'Female' }] },
+        ]);
+        assert.deepEqual(filter.geneFilters[0].molecularProfileIds, [
+            `${LUAD}_mutations`,
+        ]);
+        assert.deepEqual(applied, ['SEX = Female', 'TP53 mutated']);
+    });
+
+    it('finds the samples passing a filter', async () => {
+        const { filter } = await studyFilterResolver.resolve(LUAD, {
+            genes: [{ gene: 'EGFR', alteration: 'amplified' }],
+        });
+        assert.deepEqual(
+            await studyFilterResolver.getMatchingSampleIds(LUAD, filter),
+            ['TCGA-05-4249-01']
+        );
+    });
+
+    it('collects errors for unknown attributes', async () => {
+        const { errors } = await studyFilterResolver.resolve(LUAD, {
+            clinical: [{ attribute: 'SMOKING', values: ['yes'] }],
+        });
+        assert.equal(errors.length, 1);
+        assert.match(errors[0], /SMOKING/);
+    });
+});
+
+describe('upstream failures', () => {
+    const retries = process.env.CBIOPORTAL_API_RETRIES;
+
+    beforeEach(() => {
+        process.env.CBIOPORTAL_API_RETRIES = '0';
+    });
+
+    after(() => {
+        if (retries === undefined) {
+            delete process.env.CBIOPORTAL_API_RETRIES;
+        } else {
+            process.env.CBIOPORTAL_API_RETRIES = retries;
+        }
+        useFixtures();
+    });
+
+    it('does not remember an unreachable portal as a missing study', async () => {
+        clearCaches();
+        apiClient.setApiFactory(
+            () =>
+                ({
+                    getStudyUsingGET: async () => {
+                        throw Object.assign(new Error('connect refused'), {
+                            code: 'ECONNREFUSED',
+                        });
+                    },
+                }) as unknown as PortalApi
+        );
+        await assert.rejects(
+            studyResolver.validate(LUAD),
+            CbioportalUnavailableError
+        );
+
+        useFixtures();
+        assert.equal(await studyResolver.validate(LUAD), true);
+    });
+});
@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { createMcpServer } from '../src/server.js';
+import { McpSessionManager } from '../src/http/sessions.js';
+import { requireApiKey } from '../src/http/security.js';
+
+const ACCEPT = 'application/json, text/event-stream';
+
+describe('McpSessionManager', () => {
+    let http: Server;
+    let sessions: McpSessionManager;
+    let endpoint: string;
+
+    before(async () => {
+        sessions = new McpSessionManager(createMcpServer, {
+            maxSessions: 10,
+            idleMinutes: 5,
+        });
+        const app = express();
+        app.use(express.json());
+        app.use(
+            '/mcp',
+            requireApiKey(
+                new Map([
+                    ['alice-key', 'alice'],
+                    ['bob-key', 'bob'],
+                ])
+            )
+        );
+        app.post('/mcp', (req, res) => sessions.handlePost(req, res));
+        app.delete('/mcp', (req, res) =>
+            sessions.handleSessionRequest(req, res)
+        );
+        http = app.listen(0);
+        await new Promise((resolve) => http.once('listening', resolve));
+        endpoint = `http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`;
+    });
+
+    after(async () => {
+        await sessions.closeAll();
+        http.close();
+    });
+
+    async function initialize(apiKey: string): Promise<string> {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Accept: ACCEPT,
+                'X-API-Key': apiKey,
+            },
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                id: 1,
+                method: 'initialize',
+                params: {
+                    protocolVersion: '2025-03-26',
+                    capabilities: {},
+                    clientInfo: { name: 'test', version: '1.0.0' },
+                },
+            }),
+        });
+        assert.equal(response.status, 200);
+        await response.body?.cancel();
+        const sessionId = response.headers.get('mcp-session-id');
+        assert.ok(sessionId);
+        return sessionId;
+    }
+
+    function endSession(sessionId: string, apiKey: string) {
+        return fetch(endpoint, {
+            method: 'DELETE',
+            headers: {
+                Accept: ACCEPT,
+                'X-API-Key': apiKey,
+                'Mcp-Session-Id': sessionId,
+            },
+        });
+    }
+
+    it('answers 404 to another API key using the session', async () => {
+        const sessionId = await initialize('alice-key');
+
+        const response = await endSession(sessionId, 'bob-key');
+        assert.equal(response.status, 404);
+        assert.equal(sessions.size(), 1);
+
+        const own = await endSession(sessionId, 'alice-key');
+        assert.equal(own.status, 200);
+        assert.equal(sessions.size(), 0);
+    });
+});
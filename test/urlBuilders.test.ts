@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildStudyUrl } from '../src/urlBuilders/study.js';
+import { buildPatientUrl } from '../src/urlBuilders/patient.js';
+import { buildResultsUrl } from '../src/urlBuilders/results.js';
+
+const BASE = 'https://www.cbioportal.org';
+
+describe('buildStudyUrl', () => {
+    it('builds a Study View URL for one study', () => {
+        assert.equal(
+            buildStudyUrl({ studyIds: 'luad_tcga_pan_can_atlas_2018' }),
+            `${BASE}/study?id=luad_tcga_pan_can_atlas_2018`
+        );
+    });
+
+    it('joins several studies and adds the tab to the path', () => {
+        assert.equal(
+            buildStudyUrl({
+                studyIds: ['luad_broad', 'brca_tcga_pan_can_atlas_2018'],
+                tab: 'clinicalData',
+            }),
+            `${BASE}/study/clinicalData?id=luad_broad%2Cbrca_tcga_pan_can_atlas_2018`
+        );
+    });
+
+    it('puts filters in the hash', () => {
+        const url = buildStudyUrl({
+            studyIds: 'luad_broad',
+            filters: {
+                clinicalDataFilters: [
+                    { attributeId: 'SEX', values: [{ value: 'Female' }] },
+                ],
+            },
+        });
+        const [, hash] = url.split('#');
+        assert.ok(hash.startsWith('filterJson='));
+        assert.deepEqual(
+            JSON.parse(decodeURIComponent(hash.slice('filterJson='.length))),
+            {
+                clinicalDataFilters: [
+                    { attributeId: 'SEX', values: [{ value: 'Female' }] },
+                ],
+            }
+        );
+    });
+
+    it('leaves out empty filters', () => {
+        assert.equal(
+            buildStudyUrl({
+                studyIds: 'luad_broad',
+                filters: { clinicalDataFilters: [], caseLists: [] },
+            }),
+            `${BASE}/study?id=luad_broad`
+        );
+    });
+});
+
+describe('buildPatientUrl', () => {
+    it('opens a patient by caseId', () => {
+        assert.equal(
+            buildPatientUrl({ studyId: 'luad_broad', caseId: 'LUAD-B00416' }),
+            `${BASE}/patient?studyId=luad_broad&caseId=LUAD-B00416`
+        );
+    });
+
+    it('opens a sample when no caseId is given', () => {
+        assert.equal(
+            buildPatientUrl({
+                studyId: 'luad_broad',
+                sampleId: 'LUAD-B00416',
+                tab: 'clinicalData',
+            }),
+            `${BASE}/patient/clinicalData?studyId=luad_broad&sampleId=LUAD-B00416`
+        );
+    });
+
+    it('adds the navigation list to the hash', () => {
+        assert.equal(
+            buildPatientUrl({
+                studyId: 'luad_broad',
+                caseId: 'LUAD-B00416',
+                navIds: [
+                    { studyId: 'luad_broad', patientId: 'LUAD-B00416' },
+                    { studyId: 'luad_broad', patientId: 'LUAD-S01302' },
+                ],
+            }),
+            `${BASE}/patient?studyId=luad_broad&caseId=LUAD-B00416#navCaseIds=luad_broad:LUAD-B00416,luad_broad:LUAD-S01302`
+        );
+    });
+
+    it('requires a patient or a sample', () => {
+        assert.throws(
+            () => buildPatientUrl({ studyId: 'luad_broad' }),
+            /Either caseId or sampleId must be provided/
+        );
+    });
+});
+
+describe('buildResultsUrl', () => {
+    it('builds a single-study query with a case set', () => {
+        const url = new URL(
+            buildResultsUrl({
+                studies: ['luad_broad'],
+                genes: ['TP53', 'KRAS'],
+                caseSelection: {
+                    type: 'case_set',
+                    caseSetId: 'luad_broad_sequenced',
+                },
+                tab: 'oncoprint',
+            })
+        );
+        assert.equal(url.pathname, '/results/oncoprint');
+        assert.equal(url.searchParams.get('cancer_study_list'), 'luad_broad');
+        assert.equal(url.searchParams.get('gene_list'), 'TP53 KRAS');
+        assert.equal(
+            url.searchParams.get('case_set_id'),
+            'luad_broad_sequenced'
+        );
+    });
+
+    it('selects all samples across several studies', () => {
+        const url = new URL(
+            buildResultsUrl({
+                studies: ['luad_broad', 'brca_tcga_pan_can_atlas_2018'],
+                genes: ['TP53'],
+                caseSelection: { type: 'all' },
+                options: { profileFilter: 'mutations,gistic' },
+            })
+        );
+        assert.equal(
+            url.searchParams.get('cancer_study_list'),
+            'luad_broad,brca_tcga_pan_can_atlas_2018'
+        );
+        assert.equal(url.searchParams.get('case_set_id'), 'all');
+        assert.equal(url.searchParams.get('profileFilter'), 'mutations,gistic');
+    });
+
+    it('uses OQL instead of the plain gene list', () => {
+        const url = new URL(
+            buildResultsUrl({
+                studies: ['luad_broad'],
+                genes: ['KRAS'],
+                oql: 'KRAS: MUT=G12',
+                caseSelection: { type: 'all' },
+            })
+        );
+        assert.equal(url.searchParams.get('gene_list'), 'KRAS: MUT=G12');
+    });
+
+    it('maps profile options to their URL parameters', () => {
+        const url = new URL(
+            buildResultsUrl({
+                studies: ['luad_tcga_pan_can_atlas_2018'],
+                genes: ['EGFR'],
+                caseSelection: { type: 'custom', caseIds: ['a:s1', 'a:s2'] },
+                options: {
+                    geneticProfileIds: {
+                        mutation: 'luad_tcga_pan_can_atlas_2018_mutations',
+                        cna: 'luad_tcga_pan_can_atlas_2018_gistic',
+                    },
+                    dataPriority: 0,
+                },
+            })
+        );
+        assert.equal(
+            url.searchParams.get(
+                'genetic_profile_ids_PROFILE_MUTATION_EXTENDED'
+            ),
+            'luad_tcga_pan_can_atlas_2018_mutations'
+        );
+        assert.equal(
+            url.searchParams.get(
+                'genetic_profile_ids_PROFILE_COPY_NUMBER_ALTERATION'
+            ),
+            'luad_tcga_pan_can_atlas_2018_gistic'
+        );
+        assert.equal(url.searchParams.get('data_priority'), '0');
+        assert.equal(url.searchParams.get('case_ids'), 'a:s1,a:s2');
+        assert.equal(url.searchParams.get('case_set_id'), null);
+    });
+});